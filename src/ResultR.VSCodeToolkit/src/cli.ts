@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+/**
+ * Command line analyzer that reports request/handler wiring problems in a folder of C# files,
+ * using the same analysis as the extension so it can run in CI without VS Code.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProblemSeverity, ReportFormat, countProblems, formatAnalysisReport } from './services/analysisReport';
+import { SourceFile, analyzeSourceFiles } from './services/requestAnalysis';
+
+// Folders never searched for C# files, matching the extension's default search exclusions
+const EXCLUDED_FOLDERS = new Set(['bin', 'obj', 'node_modules', '.git', '.vs']);
+
+// Exit codes: problems at or above the --fail-on severity were found, or the arguments were invalid
+const EXIT_PROBLEMS_FOUND = 1;
+const EXIT_USAGE_ERROR = 2;
+
+const USAGE = `Usage: resultr-analyze [directory] [options]
+
+Reports ResultR requests without a handler, requests with several handlers and
+handlers whose response type differs from their request's IRequest<T>.
+
+Options:
+  --format <json|sarif>             Report format (default: json)
+  --output <file>                   Write the report to a file instead of stdout
+  --fail-on <error|warning|none>    Exit with code 1 when a problem at or above
+                                    this severity is found (default: error)
+  --help                            Show this help`;
+
+/**
+ * The parsed command line options
+ */
+interface CliOptions {
+    directory: string;
+    format: ReportFormat;
+    output: string | null;
+    failOn: ProblemSeverity | 'none';
+}
+
+/**
+ * Runs the analyzer and sets the process exit code
+ */
+function main(args: string[]): void {
+    let options: CliOptions | null;
+    try {
+        options = parseArguments(args);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        process.stderr.write(`${message}\n\n${USAGE}\n`);
+        process.exitCode = EXIT_USAGE_ERROR;
+        return;
+    }
+
+    if (!options) {
+        process.stdout.write(`${USAGE}\n`);
+        return;
+    }
+
+    try {
+        const root = path.resolve(options.directory);
+        if (!fs.statSync(root).isDirectory()) {
+            throw new Error(`'${options.directory}' is not a directory.`);
+        }
+
+        const analysis = analyzeSourceFiles(readSourceFiles(root));
+        const report = formatAnalysisReport(analysis, options.format, { name: 'resultr-analyze', version: readVersion() });
+        if (options.output) {
+            fs.writeFileSync(options.output, report);
+        } else {
+            process.stdout.write(report);
+        }
+
+        if (options.failOn !== 'none' && countProblems(analysis, options.failOn) > 0) {
+            process.exitCode = EXIT_PROBLEMS_FOUND;
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        process.stderr.write(`resultr-analyze: ${message}\n`);
+        process.exitCode = EXIT_USAGE_ERROR;
+    }
+}
+
+/**
+ * Parses the command line arguments, returning null when help was requested
+ */
+function parseArguments(args: string[]): CliOptions | null {
+    const options: CliOptions = { directory: '.', format: 'json', output: null, failOn: 'error' };
+    let directory: string | null = null;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const readValue = (): string => {
+            const value = args[++i];
+            if (value === undefined || value.startsWith('--')) {
+                throw new Error(`Missing value for ${arg}.`);
+            }
+            return value;
+        };
+
+        if (arg === '--help' || arg === '-h') {
+            return null;
+        } else if (arg === '--format') {
+            const format = readValue();
+            if (format !== 'json' && format !== 'sarif') {
+                throw new Error(`Unknown format '${format}'.`);
+            }
+            options.format = format;
+        } else if (arg === '--output') {
+            options.output = readValue();
+        } else if (arg === '--fail-on') {
+            const failOn = readValue();
+            if (failOn !== 'error' && failOn !== 'warning' && failOn !== 'none') {
+                throw new Error(`Unknown severity '${failOn}'.`);
+            }
+            options.failOn = failOn;
+        } else if (arg.startsWith('-')) {
+            throw new Error(`Unknown option '${arg}'.`);
+        } else if (directory === null) {
+            directory = arg;
+        } else {
+            throw new Error(`Unexpected argument '${arg}'.`);
+        }
+    }
+
+    return { ...options, directory: directory ?? options.directory };
+}
+
+/**
+ * Reads every C# file below the root folder, with paths relative to the working directory
+ */
+function readSourceFiles(root: string): SourceFile[] {
+    const files: SourceFile[] = [];
+    const folders = [root];
+
+    while (folders.length > 0) {
+        const folder = folders.pop() as string;
+        for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+            const fullPath = path.join(folder, entry.name);
+            if (entry.isDirectory() && !EXCLUDED_FOLDERS.has(entry.name)) {
+                folders.push(fullPath);
+            } else if (entry.isFile() && entry.name.endsWith('.cs')) {
+                files.push({
+                    path: path.relative(process.cwd(), fullPath).split(path.sep).join('/'),
+                    // Drop the byte order mark, as VS Code does when reading files
+                    text: fs.readFileSync(fullPath, 'utf8').replace(/^\uFEFF/, '')
+                });
+            }
+        }
+    }
+
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Reads the version of the toolkit from its package.json
+ */
+function readVersion(): string {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8'));
+    return packageJson.version;
+}
+
+main(process.argv.slice(2));
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { findPipelineHooks } from '../services/csharpParser';
+import { findHandlersForRequest } from '../services/handlerLocator';
+import { findClosestProject, findProjectFiles, getProjectName } from '../services/projectLocator';
+import { CatalogFormat, RequestCatalogEntry, formatRequestCatalog } from '../services/requestCatalog';
+import { getAllRequests, whenIndexReady } from '../services/workspaceIndex';
+
+// The catalog formats offered, with the extension of the file each is saved as
+const CATALOG_FORMATS: { label: string; description: string; format: CatalogFormat; extension: string }[] = [
+    { label: 'Markdown', description: 'A table of requests per namespace', format: 'markdown', extension: 'md' },
+    { label: 'JSON', description: 'For scripts and other tools', format: 'json', extension: 'json' },
+    { label: 'Mermaid', description: 'A flowchart of requests and handlers per namespace', format: 'mermaid', extension: 'mmd' }
+];
+
+/**
+ * Command to write a catalog of every request in the workspace, with its handlers, their pipeline hooks
+ * and file locations, as Markdown, JSON or a Mermaid diagram
+ */
+export async function exportRequestCatalog(): Promise<void> {
+    const selected = await vscode.window.showQuickPick(CATALOG_FORMATS, { placeHolder: 'Select the catalog format' });
+    if (!selected) {
+        return; // User cancelled
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const fileName = `request-catalog.${selected.extension}`;
+    const fileUri = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, fileName) : undefined,
+        filters: { [selected.label]: [selected.extension] },
+        saveLabel: 'Export'
+    });
+    if (!fileUri) {
+        return; // User cancelled
+    }
+
+    try {
+        const entries = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'ResultR: Building request catalog...' },
+            () => buildCatalog()
+        );
+        const content = formatRequestCatalog(entries, selected.format);
+        await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content, 'utf8'));
+
+        const document = await vscode.workspace.openTextDocument(fileUri);
+        await vscode.window.showTextDocument(document);
+        vscode.window.showInformationMessage(`Exported ${entries.length} requests to ${path.basename(fileUri.fsPath)}`);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to export request catalog: ${message}`);
+    }
+}
+
+/**
+ * Creates a catalog entry for every indexed request, reading the pipeline hooks from each handler's file
+ */
+async function buildCatalog(): Promise<RequestCatalogEntry[]> {
+    await whenIndexReady();
+    const projectFiles = await findProjectFiles();
+
+    // Handlers often handle several requests or share a file, so each file is read once
+    const fileTexts = new Map<string, Promise<string>>();
+    const readText = (fileUri: vscode.Uri) => {
+        let text = fileTexts.get(fileUri.toString());
+        if (!text) {
+            text = Promise.resolve(vscode.workspace.openTextDocument(fileUri)).then(document => document.getText());
+            fileTexts.set(fileUri.toString(), text);
+        }
+        return text;
+    };
+
+    const entries: RequestCatalogEntry[] = [];
+    for (const request of getAllRequests()) {
+        const csprojUri = findClosestProject(request.fileUri, projectFiles);
+        const handlers = await findHandlersForRequest(request);
+
+        entries.push({
+            typeName: request.typeName,
+            namespaceName: request.namespaceName ?? null,
+            projectName: csprojUri ? getProjectName(csprojUri) : null,
+            responseType: request.responseType,
+            filePath: vscode.workspace.asRelativePath(request.fileUri),
+            line: request.position.line + 1,
+            handlers: await Promise.all(handlers.map(async handler => ({
+                typeName: handler.typeName,
+                namespaceName: handler.namespaceName ?? null,
+                hooks: findPipelineHooks(await readText(handler.fileUri), handler.typeName),
+                filePath: vscode.workspace.asRelativePath(handler.fileUri),
+                line: handler.position.line + 1
+            })))
+        });
+    }
+
+    return entries;
+}
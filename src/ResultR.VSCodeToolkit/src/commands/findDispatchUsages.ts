@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { RequestType } from '../types';
+import { findHandledRequestAtCursor, findRequestTypesAtCursor } from '../services/csharpParser';
+import { findDispatchesForRequest } from '../services/dispatchLocator';
+import { pickType } from '../services/navigation';
+import { showLocationsInReferencesView } from '../services/referencesView';
+
+/**
+ * Command to show every IDispatcher.Dispatch(...) call site for the request at the cursor in the References view.
+ * Works from the request itself or from its handler.
+ */
+export async function findDispatchUsages(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('No active editor found.');
+        return;
+    }
+
+    if (editor.document.languageId !== 'csharp') {
+        vscode.window.showWarningMessage('This command only works in C# files.');
+        return;
+    }
+
+    const document = editor.document;
+    const position = editor.selection.active;
+
+    try {
+        let requestTypes = await findRequestTypesAtCursor(document, position);
+        let requestTypeName: string | undefined = requestTypes[0]?.typeName;
+        if (!requestTypeName) {
+            const handledRequest = await findHandledRequestAtCursor(document, position);
+            requestTypes = handledRequest?.requests ?? [];
+            requestTypeName = handledRequest?.requestTypeName;
+        }
+        if (!requestTypeName) {
+            vscode.window.showWarningMessage(
+                'The symbol under the cursor is not a ResultR request type (IRequest or IRequest<T>) or handler.'
+            );
+            return;
+        }
+
+        // A handled request type that is not declared in the workspace is matched by name
+        let request: RequestType | string = requestTypeName;
+        if (requestTypes.length > 0) {
+            const requestType = await pickType(requestTypes, `Select the request type for '${requestTypeName}'`);
+            if (!requestType) {
+                return;
+            }
+            request = requestType;
+        }
+
+        const dispatches = await findDispatchesForRequest(request);
+        if (dispatches.length === 0) {
+            vscode.window.showInformationMessage(
+                `No dispatch usages found for '${requestTypeName}'.`
+            );
+            return;
+        }
+
+        await showLocationsInReferencesView(
+            `Dispatches of '${requestTypeName}'`,
+            new vscode.Location(document.uri, position),
+            dispatches.map(dispatch => new vscode.Location(dispatch.fileUri, dispatch.range))
+        );
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`An error occurred: ${message}`);
+    }
+}
@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { RequestType, getConfig } from '../types';
+import { findNamespaceDeclaration } from '../services/csharpParser';
+import { generateHandlerFile, getHandlerFolderForRequest, getHandlerName } from '../services/codeGenerator';
+
+/**
+ * Command to create a handler for an existing request in a new file next to the request
+ * (or in the mirrored Handlers folder, depending on the configured layout).
+ * Invoked from the "Generate handler in new file" quick fix.
+ */
+export async function generateHandlerForRequest(request: RequestType): Promise<void> {
+    try {
+        const requestDocument = await vscode.workspace.openTextDocument(request.fileUri);
+        const requestNamespace = findNamespaceDeclaration(requestDocument.getText());
+        const targetFolder = getHandlerFolderForRequest(vscode.Uri.joinPath(request.fileUri, '..'));
+
+        const filePath = await generateHandlerFile(
+            request.typeName,
+            {
+                responseType: request.responseType,
+                properties: [],
+                hooks: getConfig().codeGeneration.includeHooks,
+                useValidationRules: false
+            },
+            targetFolder,
+            requestNamespace
+        );
+        if (filePath) {
+            // Open the generated file
+            const document = await vscode.workspace.openTextDocument(filePath);
+            await vscode.window.showTextDocument(document);
+            vscode.window.showInformationMessage(`Created ${getHandlerName(request.typeName)}.cs`);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to create handler: ${message}`);
+    }
+}
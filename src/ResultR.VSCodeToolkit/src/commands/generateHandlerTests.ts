@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { HandlerType, TestFramework } from '../types';
+import { findHandlerTypeAtCursor } from '../services/csharpParser';
+import { ProjectInfo, findContainingProject } from '../services/codeGenerator';
+import { findHandlersInText } from '../services/handlerLocator';
+import { detectTestFramework, findTestProjects, generateHandlerTests as generateTests } from '../services/testGenerator';
+
+/**
+ * Command to generate a test class for the handler under the cursor (or in the current file)
+ * in a test project that references the handler's project.
+ */
+export async function generateHandlerTests(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('No active editor found.');
+        return;
+    }
+
+    if (editor.document.languageId !== 'csharp') {
+        vscode.window.showWarningMessage('This command only works in C# files.');
+        return;
+    }
+
+    let handler: HandlerType | null;
+    try {
+        handler = await findHandlerForTests(editor.document, editor.selection.active);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to generate handler tests: ${message}`);
+        return;
+    }
+
+    if (!handler) {
+        vscode.window.showWarningMessage('No ResultR handler (IRequestHandler<TRequest>) found in this file.');
+        return;
+    }
+
+    await generateTestsForHandler(handler);
+}
+
+/**
+ * Generates a test class for a handler in a test project that references the handler's project, asking which
+ * test project and framework to use when they can't be determined, and opens the generated file
+ */
+export async function generateTestsForHandler(handler: HandlerType): Promise<void> {
+    try {
+        const handlerProject = await findContainingProject(vscode.Uri.joinPath(handler.fileUri, '..'));
+        if (!handlerProject) {
+            vscode.window.showWarningMessage(`Could not find the project containing '${handler.typeName}'.`);
+            return;
+        }
+
+        const testProject = await pickTestProject(handlerProject);
+        if (!testProject) {
+            return;
+        }
+
+        const framework = await detectTestFramework(testProject) ?? await pickTestFramework(testProject);
+        if (!framework) {
+            return; // User cancelled
+        }
+
+        const filePath = await generateTests(handler, handlerProject, testProject, framework);
+        if (filePath) {
+            // Open the generated file
+            const document = await vscode.workspace.openTextDocument(filePath);
+            await vscode.window.showTextDocument(document);
+            vscode.window.showInformationMessage(`Created ${path.basename(filePath.fsPath)}`);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to generate handler tests: ${message}`);
+    }
+}
+
+/**
+ * Finds the handler to test: the one named under the cursor, otherwise the closest handler
+ * declared before the cursor, otherwise the first handler in the file
+ */
+async function findHandlerForTests(
+    document: vscode.TextDocument,
+    position: vscode.Position
+): Promise<HandlerType | null> {
+    const handlerAtCursor = await findHandlerTypeAtCursor(document, position);
+    if (handlerAtCursor) {
+        return handlerAtCursor;
+    }
+
+    const handlers = findHandlersInText(document.getText(), document);
+    const preceding = handlers.filter(handler => handler.position.isBeforeOrEqual(position));
+    return preceding[preceding.length - 1] ?? handlers[0] ?? null;
+}
+
+/**
+ * Picks the test project to generate into, asking the user when several reference the handler's project
+ */
+async function pickTestProject(handlerProject: ProjectInfo): Promise<ProjectInfo | undefined> {
+    const testProjects = await findTestProjects(handlerProject);
+    if (testProjects.length === 0) {
+        const projectName = path.basename(handlerProject.csprojUri.fsPath, '.csproj');
+        vscode.window.showWarningMessage(
+            `No test project references '${projectName}'. Test projects are those whose name ends in ".Tests" (e.g., "${projectName}.Tests"); add a ProjectReference to '${projectName}' from one.`
+        );
+        return undefined;
+    }
+
+    if (testProjects.length === 1) {
+        return testProjects[0];
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        testProjects.map(testProject => ({
+            label: path.basename(testProject.csprojUri.fsPath, '.csproj'),
+            description: vscode.workspace.asRelativePath(testProject.csprojUri),
+            testProject
+        })),
+        { placeHolder: 'Select the test project to generate tests in' }
+    );
+    return selected?.testProject;
+}
+
+/**
+ * Asks which test framework to use when it can't be detected from the test project's package references
+ */
+async function pickTestFramework(testProject: ProjectInfo): Promise<TestFramework | undefined> {
+    const frameworks: TestFramework[] = ['xUnit', 'NUnit', 'MSTest'];
+    const selected = await vscode.window.showQuickPick(frameworks, {
+        placeHolder: `Could not detect the test framework of ${path.basename(testProject.csprojUri.fsPath)}. Select one`
+    });
+    return selected as TestFramework | undefined;
+}
@@ -1,7 +1,16 @@
 import * as vscode from 'vscode';
-import { findRequestTypeAtCursor } from '../services/csharpParser';
-import { findHandlerForRequest } from '../services/handlerLocator';
-import { navigateToLocation } from '../services/navigation';
+import { HandlerType } from '../types';
+import { findRequestTypesAtCursor } from '../services/csharpParser';
+import { findHandlersForRequest } from '../services/handlerLocator';
+import { navigateToLocation, pickType } from '../services/navigation';
+import { findClosestProject, findProjectFiles, getProjectName } from '../services/projectLocator';
+
+/**
+ * A handler entry, or the entry that peeks at every handler, in the handler quick pick
+ */
+interface HandlerQuickPickItem extends vscode.QuickPickItem {
+    handler?: HandlerType;
+}
 
 export async function goToHandler(): Promise<void> {
     const editor = vscode.window.activeTextEditor;
@@ -19,25 +28,77 @@ export async function goToHandler(): Promise<void> {
     const position = editor.selection.active;
 
     try {
-        const requestType = await findRequestTypeAtCursor(document, position);
-        if (!requestType) {
+        const requestTypes = await findRequestTypesAtCursor(document, position);
+        if (requestTypes.length === 0) {
             vscode.window.showWarningMessage(
                 'The symbol under the cursor is not a ResultR request type (IRequest or IRequest<T>).'
             );
             return;
         }
 
-        const handlerLocation = await findHandlerForRequest(requestType);
-        if (!handlerLocation) {
+        const requestType = await pickType(requestTypes, `Select the request type for '${requestTypes[0].typeName}'`);
+        if (!requestType) {
+            return;
+        }
+
+        const handlers = await findHandlersForRequest(requestType);
+        if (handlers.length === 0) {
             vscode.window.showWarningMessage(
                 `No handler found for '${requestType.typeName}'.`
             );
             return;
         }
 
-        await navigateToLocation(handlerLocation);
+        if (handlers.length === 1) {
+            await navigateToLocation(handlers[0]);
+            return;
+        }
+
+        const selected = await pickHandler(handlers, requestType.typeName);
+        if (!selected) {
+            return;
+        }
+
+        if (selected.handler) {
+            await navigateToLocation(selected.handler);
+        } else {
+            await vscode.commands.executeCommand(
+                'editor.action.peekLocations',
+                document.uri,
+                position,
+                handlers.map(handler => new vscode.Location(handler.fileUri, handler.range)),
+                'peek'
+            );
+        }
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         vscode.window.showErrorMessage(`An error occurred: ${message}`);
     }
 }
+
+/**
+ * Asks the user which of several handlers to open, showing each handler's project and file,
+ * or whether to peek at all of them in place
+ */
+async function pickHandler(handlers: HandlerType[], requestTypeName: string): Promise<HandlerQuickPickItem | undefined> {
+    const projectFiles = await findProjectFiles();
+
+    const handlerItems: HandlerQuickPickItem[] = handlers.map(handler => {
+        const csprojUri = findClosestProject(handler.fileUri, projectFiles);
+        return {
+            label: `$(symbol-class) ${handler.typeName}`,
+            description: csprojUri ? getProjectName(csprojUri) : undefined,
+            detail: vscode.workspace.asRelativePath(handler.fileUri),
+            handler
+        };
+    });
+
+    return vscode.window.showQuickPick(
+        [
+            ...handlerItems,
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            { label: '$(eye) Peek', description: `Show all ${handlers.length} handlers without leaving this file` }
+        ],
+        { placeHolder: `${handlers.length} handlers found for '${requestTypeName}'`, matchOnDescription: true, matchOnDetail: true }
+    );
+}
@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { findHandledRequestAtCursor } from '../services/csharpParser';
+import { navigateToLocation, pickType } from '../services/navigation';
+
+export async function goToRequest(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('No active editor found.');
+        return;
+    }
+
+    if (editor.document.languageId !== 'csharp') {
+        vscode.window.showWarningMessage('This command only works in C# files.');
+        return;
+    }
+
+    const document = editor.document;
+    const position = editor.selection.active;
+
+    try {
+        const handledRequest = await findHandledRequestAtCursor(document, position);
+        if (!handledRequest) {
+            vscode.window.showWarningMessage(
+                'The symbol under the cursor is not a ResultR handler type (IRequestHandler<TRequest>) or HandleAsync method.'
+            );
+            return;
+        }
+
+        const { requestTypeName, requests } = handledRequest;
+        if (requests.length === 0) {
+            vscode.window.showWarningMessage(
+                `No request type found for '${requestTypeName}'.`
+            );
+            return;
+        }
+
+        const requestType = await pickType(requests, `Select the request type for '${requestTypeName}'`);
+        if (requestType) {
+            await navigateToLocation(requestType);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`An error occurred: ${message}`);
+    }
+}
@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { CSharpType } from '../types';
+import { navigateToLocation } from '../services/navigation';
+import { findClosestProject, findProjectFiles, getProjectName } from '../services/projectLocator';
+import { getAllHandlers, getAllRequests, whenIndexReady } from '../services/workspaceIndex';
+
+/**
+ * A request or handler entry in the quick pick
+ */
+interface TypeQuickPickItem extends vscode.QuickPickItem {
+    location: CSharpType;
+}
+
+/**
+ * Command to search every request and handler in the workspace by name and jump to the selected one
+ */
+export async function goToRequestOrHandler(): Promise<void> {
+    try {
+        const selected = await vscode.window.showQuickPick(createItems(), {
+            placeHolder: 'Search requests and handlers by name',
+            matchOnDescription: true
+        });
+
+        if (selected) {
+            await navigateToLocation(selected.location);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`An error occurred: ${message}`);
+    }
+}
+
+/**
+ * Creates a quick pick item for every indexed request and handler, described by response type and project
+ */
+async function createItems(): Promise<TypeQuickPickItem[]> {
+    await whenIndexReady();
+    const projectFiles = await findProjectFiles();
+
+    const describe = (responseType: string | null, fileUri: vscode.Uri) => {
+        const csprojUri = findClosestProject(fileUri, projectFiles);
+        const response = responseType ? `→ ${responseType}` : '→ (no response)';
+        return csprojUri ? `${response} · ${getProjectName(csprojUri)}` : response;
+    };
+
+    const requestItems = getAllRequests().map(request => ({
+        label: `$(${request.responseType ? 'symbol-interface' : 'symbol-event'}) ${request.typeName}`,
+        description: describe(request.responseType, request.fileUri),
+        location: request
+    }));
+
+    const handlerItems = getAllHandlers().map(handler => ({
+        label: `$(symbol-method) ${handler.typeName}`,
+        description: describe(handler.responseType, handler.fileUri),
+        detail: `Handles ${handler.requestTypeName}`,
+        location: handler
+    }));
+
+    return [...requestItems, ...handlerItems]
+        .sort((a, b) => a.location.typeName.localeCompare(b.location.typeName));
+}
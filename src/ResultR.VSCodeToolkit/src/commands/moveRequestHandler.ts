@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { moveFiles } from '../services/moveRefactoring';
+
+/**
+ * Command to move request/handler files to another folder, updating their namespace to match the new folder
+ * and the using directives of the files that reference them.
+ * Called from the Explorer with the selected files, or from the Command Palette for the active file.
+ */
+export async function moveRequestHandler(uri?: vscode.Uri, selectedUris?: vscode.Uri[]): Promise<void> {
+    const fileUris = selectedUris && selectedUris.length > 0
+        ? selectedUris
+        : [uri ?? vscode.window.activeTextEditor?.document.uri].filter((fileUri): fileUri is vscode.Uri => fileUri !== undefined);
+    if (fileUris.length === 0) {
+        vscode.window.showWarningMessage('Select the request or handler files to move.');
+        return;
+    }
+
+    const destination = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: vscode.Uri.joinPath(fileUris[0], '..'),
+        openLabel: 'Move Here'
+    });
+
+    if (!destination || destination.length === 0) {
+        return; // User cancelled
+    }
+
+    try {
+        const moves = fileUris.map(oldUri => ({
+            oldUri,
+            newUri: vscode.Uri.joinPath(destination[0], path.basename(oldUri.fsPath))
+        }));
+        if (moves.every(move => move.oldUri.toString() === move.newUri.toString())) {
+            return;
+        }
+
+        if (!await moveFiles(moves)) {
+            vscode.window.showWarningMessage('The files could not be moved. A file with the same name may already exist in the destination.');
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to move files: ${message}`);
+    }
+}
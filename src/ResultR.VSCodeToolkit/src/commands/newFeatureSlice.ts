@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { FeatureOperation } from '../types';
+import { ExistingDto, generateFeatureSlice, getDtoName, pluralize } from '../services/codeGenerator';
+import { findWorkspaceTypesByName, readConstructorParameters } from '../services/csharpParser';
+import { pickType } from '../services/navigation';
+import { resolveTargetFolder, validateRequestName } from './newRequestHandler';
+
+// Title shown on every page of the feature slice wizard
+const WIZARD_TITLE = 'New ResultR Feature Slice';
+
+// The operations offered in the wizard, with the request each one scaffolds
+const OPERATION_ITEMS: (vscode.QuickPickItem & { operation: FeatureOperation })[] = [
+    { label: 'Create', description: 'Create{Entity}Request : IRequest<{Entity}Dto>', operation: 'Create' },
+    { label: 'Get', description: 'Get{Entity}Request(int Id) : IRequest<{Entity}Dto>', operation: 'Get' },
+    { label: 'List', description: 'List{Entities}Request : IRequest<IReadOnlyList<{Entity}Dto>>', operation: 'List' },
+    { label: 'Update', description: 'Update{Entity}Request(int Id) : IRequest', operation: 'Update' },
+    { label: 'Delete', description: 'Delete{Entity}Request(int Id) : IRequest', operation: 'Delete' }
+];
+
+/**
+ * Command to create a feature folder with a request and handler for each chosen operation on an entity.
+ * Can be invoked from the explorer context menu on a folder or file.
+ */
+export async function newFeatureSlice(uri?: vscode.Uri): Promise<void> {
+    const targetFolder = await resolveTargetFolder(uri);
+    if (!targetFolder) {
+        return;
+    }
+
+    const entityInput = await vscode.window.showInputBox({
+        title: `${WIZARD_TITLE} (1/2)`,
+        prompt: 'Enter the entity name (e.g., "User")',
+        placeHolder: 'User',
+        validateInput: validateRequestName
+    });
+
+    if (!entityInput) {
+        return; // User cancelled
+    }
+
+    // "UserDto" and "User" both scaffold the User feature
+    let entityName = entityInput.trim();
+    if (entityName.endsWith('Dto') && entityName.length > 3) {
+        entityName = entityName.slice(0, -3);
+    }
+
+    const selectedItems = await vscode.window.showQuickPick(
+        OPERATION_ITEMS.map(item => ({
+            ...item,
+            description: item.description?.replace(/{Entity}/g, entityName).replace(/{Entities}/g, pluralize(entityName)),
+            picked: true
+        })),
+        {
+            title: `${WIZARD_TITLE} (2/2)`,
+            placeHolder: 'Select the operations to scaffold',
+            canPickMany: true
+        }
+    );
+
+    if (!selectedItems || selectedItems.length === 0) {
+        return; // User cancelled
+    }
+
+    try {
+        const existingDto = await findExistingDto(getDtoName(entityName));
+        if (existingDto === undefined) {
+            return; // User cancelled
+        }
+
+        const filePaths = await generateFeatureSlice(
+            entityName,
+            selectedItems.map(item => item.operation),
+            targetFolder,
+            existingDto
+        );
+        if (filePaths) {
+            // Reveal the new feature folder rather than opening every file
+            await vscode.commands.executeCommand('revealInExplorer', filePaths[0]);
+            vscode.window.showInformationMessage(`Created ${filePaths.length} files for ${entityName}`);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to create feature slice: ${message}`);
+    }
+}
+
+/**
+ * Finds the DTO the workspace already declares for the feature, asking which one to use when several share the name.
+ * Its namespace is imported by the generated files and its properties seed the Create request.
+ * Returns null when there is none, or undefined if cancelled.
+ */
+async function findExistingDto(dtoName: string): Promise<ExistingDto | null | undefined> {
+    const dtos = await findWorkspaceTypesByName(dtoName);
+    if (dtos.length === 0) {
+        return null;
+    }
+
+    const dto = await pickType(dtos, `Select the '${dtoName}' the feature's requests return`);
+    if (!dto) {
+        return undefined;
+    }
+
+    return { namespaceName: dto.namespaceName, properties: await readConstructorParameters(dto) };
+}
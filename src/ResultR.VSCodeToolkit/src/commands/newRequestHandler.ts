@@ -1,12 +1,142 @@
 import * as vscode from 'vscode';
-import { generateRequestHandler } from '../services/codeGenerator';
+import * as path from 'path';
+import { PipelineHook, RequestProperty, ScaffoldTemplate, getConfig } from '../types';
+import {
+    PIPELINE_HOOKS,
+    detectValidationSupport,
+    findScaffoldTemplates,
+    generateRequestHandler
+} from '../services/codeGenerator';
+import { splitTopLevel } from '../services/csharpTokenizer';
+import { findHandlersInText } from '../services/handlerLocator';
+import { generateTestsForHandler } from './generateHandlerTests';
+
+// Title shown on every page of the scaffold wizard
+const WIZARD_TITLE = 'New ResultR Request / Handler';
+
+// Response types offered in the wizard before the user types their own
+const COMMON_RESPONSE_TYPES = ['bool', 'int', 'long', 'string', 'Guid'];
 
 /**
  * Command to create a new ResultR Request and Handler pair.
  * Can be invoked from the explorer context menu on a folder or file.
  */
 export async function newRequestHandler(uri?: vscode.Uri): Promise<void> {
-    // Determine the target folder
+    const targetFolder = await resolveTargetFolder(uri);
+    if (!targetFolder) {
+        return;
+    }
+
+    // Let the user choose between the built-in template and any workspace templates
+    const template = await pickTemplate();
+    if (template === undefined) {
+        return; // User cancelled
+    }
+
+    // Workspace templates define their own handler body, so they skip the pipeline hooks step
+    const totalSteps = template ? 4 : 5;
+
+    // Show input box for the request name
+    const requestName = await vscode.window.showInputBox({
+        title: `${WIZARD_TITLE} (1/${totalSteps})`,
+        prompt: 'Enter the request name (e.g., "CreateUser")',
+        placeHolder: 'CreateUser',
+        validateInput: validateRequestName
+    });
+
+    if (!requestName) {
+        return; // User cancelled
+    }
+
+    // Strip "Request" or "Handler" suffix if user included it
+    let baseName = requestName.trim();
+    if (baseName.endsWith('Request')) {
+        baseName = baseName.slice(0, -7);
+    } else if (baseName.endsWith('Handler')) {
+        baseName = baseName.slice(0, -7);
+    }
+
+    if (!baseName) {
+        vscode.window.showWarningMessage('Please enter a meaningful name.');
+        return;
+    }
+
+    const responseType = await pickResponseType(totalSteps);
+    if (responseType === undefined) {
+        return; // User cancelled
+    }
+
+    const propertiesInput = await vscode.window.showInputBox({
+        title: `${WIZARD_TITLE} (3/${totalSteps})`,
+        prompt: 'Enter the request properties as "Type Name" pairs separated by commas, or leave empty for none',
+        placeHolder: 'string Name, int Age',
+        validateInput: validateProperties
+    });
+
+    if (propertiesInput === undefined) {
+        return; // User cancelled
+    }
+
+    const properties = parseProperties(propertiesInput) ?? [];
+
+    let hookSelection: { hooks: PipelineHook[]; useValidationRules: boolean } | undefined = {
+        hooks: [],
+        useValidationRules: false
+    };
+    if (!template) {
+        // Validation rules are only offered when the project references ResultR.Validation
+        const canUseValidationRules = properties.length > 0 && await detectValidationSupport(targetFolder);
+
+        hookSelection = await pickHooks(responseType, canUseValidationRules, totalSteps);
+        if (!hookSelection) {
+            return; // User cancelled
+        }
+    }
+
+    const shouldGenerateTests = await pickGenerateTests(totalSteps);
+    if (shouldGenerateTests === undefined) {
+        return; // User cancelled
+    }
+
+    let handlerDocument: vscode.TextDocument | undefined;
+    try {
+        const filePaths = await generateRequestHandler(baseName, targetFolder, {
+            responseType,
+            properties,
+            hooks: hookSelection.hooks,
+            useValidationRules: hookSelection.useValidationRules
+        }, template ?? undefined);
+        if (filePaths) {
+            // Open the generated files, leaving the last one (the handler) active
+            for (const filePath of filePaths) {
+                const document = await vscode.workspace.openTextDocument(filePath);
+                await vscode.window.showTextDocument(document, { preview: false });
+                handlerDocument = document;
+            }
+            const fileNames = filePaths.map(filePath => path.basename(filePath.fsPath)).join(', ');
+            vscode.window.showInformationMessage(`Created ${fileNames}`);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to create request/handler: ${message}`);
+        return;
+    }
+
+    if (shouldGenerateTests && handlerDocument) {
+        const [handler] = findHandlersInText(handlerDocument.getText(), handlerDocument);
+        if (!handler) {
+            vscode.window.showWarningMessage(`No ResultR handler found in ${path.basename(handlerDocument.uri.fsPath)} to generate tests for.`);
+            return;
+        }
+        await generateTestsForHandler(handler);
+    }
+}
+
+/**
+ * Determines the folder to scaffold into: the folder (or a file's folder) picked in the Explorer,
+ * or a folder the user selects when invoked from the command palette
+ */
+export async function resolveTargetFolder(uri?: vscode.Uri): Promise<vscode.Uri | undefined> {
     let targetFolder: vscode.Uri | undefined;
 
     if (uri) {
@@ -23,7 +153,7 @@ export async function newRequestHandler(uri?: vscode.Uri): Promise<void> {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders || workspaceFolders.length === 0) {
             vscode.window.showWarningMessage('No workspace folder open.');
-            return;
+            return undefined;
         }
 
         const folderUri = await vscode.window.showOpenDialog({
@@ -35,7 +165,7 @@ export async function newRequestHandler(uri?: vscode.Uri): Promise<void> {
         });
 
         if (!folderUri || folderUri.length === 0) {
-            return;
+            return undefined;
         }
 
         targetFolder = folderUri[0];
@@ -43,51 +173,225 @@ export async function newRequestHandler(uri?: vscode.Uri): Promise<void> {
 
     if (!targetFolder) {
         vscode.window.showWarningMessage('Could not determine target folder.');
-        return;
     }
+    return targetFolder;
+}
 
-    // Show input box for the request name
-    const requestName = await vscode.window.showInputBox({
-        prompt: 'Enter the request name (e.g., "CreateUser")',
-        placeHolder: 'CreateUser',
-        validateInput: validateRequestName
+/**
+ * Asks which template to scaffold from when the workspace defines its own templates.
+ * Returns the chosen template, null for the built-in template, or undefined if cancelled.
+ */
+async function pickTemplate(): Promise<ScaffoldTemplate | null | undefined> {
+    const templates = await findScaffoldTemplates();
+    if (templates.length === 0) {
+        return null;
+    }
+
+    const builtInItem: vscode.QuickPickItem & { template: ScaffoldTemplate | null } = {
+        label: 'Built-in',
+        description: 'Request record and handler class generated by ResultR',
+        template: null
+    };
+    const selected = await vscode.window.showQuickPick(
+        [
+            ...templates.map(template => ({
+                label: template.name,
+                description: vscode.workspace.asRelativePath(template.uri),
+                template
+            })),
+            builtInItem
+        ],
+        {
+            title: `${WIZARD_TITLE}: Template`,
+            placeHolder: 'Select the template to scaffold from'
+        }
+    );
+
+    return selected ? selected.template : undefined;
+}
+
+/**
+ * Asks for the request's response type.
+ * Returns the type name, null for a request that does not return a value, or undefined if cancelled.
+ */
+async function pickResponseType(totalSteps: number): Promise<string | null | undefined> {
+    const noResponseItem: vscode.QuickPickItem = {
+        label: 'No response',
+        description: 'IRequest'
+    };
+    const commonItems: vscode.QuickPickItem[] = COMMON_RESPONSE_TYPES.map(type => ({
+        label: type,
+        description: `IRequest<${type}>`
+    }));
+
+    const quickPick = vscode.window.createQuickPick();
+    quickPick.title = WIZARD_TITLE;
+    quickPick.step = 2;
+    quickPick.totalSteps = totalSteps;
+    quickPick.placeholder = 'Type a response type (e.g., "UserDto") or pick one below';
+    quickPick.items = [noResponseItem, ...commonItems];
+
+    // Offer whatever the user types as a response type of its own
+    quickPick.onDidChangeValue(value => {
+        const typed = value.trim();
+        const isNew = typed && isValidTypeName(typed) && !COMMON_RESPONSE_TYPES.includes(typed);
+        quickPick.items = isNew
+            ? [{ label: typed, description: `IRequest<${typed}>` }, noResponseItem, ...commonItems]
+            : [noResponseItem, ...commonItems];
     });
 
-    if (!requestName) {
-        return; // User cancelled
+    return new Promise(resolve => {
+        quickPick.onDidAccept(() => {
+            const selected = quickPick.selectedItems[0];
+            if (selected) {
+                resolve(selected === noResponseItem ? null : selected.label);
+                quickPick.hide();
+            }
+        });
+        quickPick.onDidHide(() => {
+            resolve(undefined);
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
+
+/**
+ * Asks which optional pipeline hooks the handler should implement, pre-selecting the configured defaults.
+ * When offered, the user can also choose to fill ValidateAsync with ResultR.Validation rules.
+ * Returns undefined if cancelled.
+ */
+async function pickHooks(
+    responseType: string | null,
+    canUseValidationRules: boolean,
+    totalSteps: number
+): Promise<{ hooks: PipelineHook[]; useValidationRules: boolean } | undefined> {
+    const defaultHooks = getConfig().codeGeneration.includeHooks;
+    const resultType = responseType ? `Result<${responseType}>` : 'Result';
+    const descriptions: Record<PipelineHook, string> = {
+        ValidateAsync: 'Validate the request before handling; a failure short-circuits the pipeline',
+        BeforeHandleAsync: 'Run logic after validation, before HandleAsync',
+        AfterHandleAsync: `Run logic after HandleAsync with the ${resultType}`
+    };
+
+    const items: (vscode.QuickPickItem & { hook?: PipelineHook })[] = PIPELINE_HOOKS.map(hook => ({
+        label: hook,
+        description: descriptions[hook],
+        picked: defaultHooks.includes(hook),
+        hook
+    }));
+
+    const validationItem: vscode.QuickPickItem = {
+        label: 'ValidateAsync with ResultR.Validation rules',
+        description: 'Validator.For(request) with a rule per property'
+    };
+    if (canUseValidationRules) {
+        items.push(validationItem);
     }
 
-    // Strip "Request" or "Handler" suffix if user included it
-    let baseName = requestName.trim();
-    if (baseName.endsWith('Request')) {
-        baseName = baseName.slice(0, -7);
-    } else if (baseName.endsWith('Handler')) {
-        baseName = baseName.slice(0, -7);
+    const selected = await vscode.window.showQuickPick(items, {
+        title: `${WIZARD_TITLE} (4/${totalSteps})`,
+        placeHolder: 'Select the pipeline hooks to implement (optional)',
+        canPickMany: true
+    });
+
+    if (!selected) {
+        return undefined;
     }
 
-    if (!baseName) {
-        vscode.window.showWarningMessage('Please enter a meaningful name.');
-        return;
+    const useValidationRules = selected.includes(validationItem);
+    const hooks = selected.flatMap(item => item.hook ? [item.hook] : []);
+    if (useValidationRules && !hooks.includes('ValidateAsync')) {
+        hooks.push('ValidateAsync');
     }
 
-    try {
-        const filePath = await generateRequestHandler(baseName, targetFolder);
-        if (filePath) {
-            // Open the generated file
-            const document = await vscode.workspace.openTextDocument(filePath);
-            await vscode.window.showTextDocument(document);
-            vscode.window.showInformationMessage(`Created ${baseName}.cs`);
+    return { hooks, useValidationRules };
+}
+
+/**
+ * Asks whether to generate tests for the new handler once it is created.
+ * Returns undefined if cancelled.
+ */
+async function pickGenerateTests(totalSteps: number): Promise<boolean | undefined> {
+    const generateItem: vscode.QuickPickItem = {
+        label: 'Generate handler tests',
+        description: 'Create a test class in a test project that references this project'
+    };
+    const skipItem: vscode.QuickPickItem = {
+        label: 'Skip',
+        description: 'Only create the request and handler'
+    };
+
+    const selected = await vscode.window.showQuickPick([generateItem, skipItem], {
+        title: `${WIZARD_TITLE} (${totalSteps}/${totalSteps})`,
+        placeHolder: 'Generate tests for the new handler?'
+    });
+
+    return selected ? selected === generateItem : undefined;
+}
+
+/**
+ * Parses "Type Name" pairs separated by commas, returning null if any pair is invalid.
+ * Commas inside generic type arguments (e.g., "Dictionary<string, int> Map") are kept with their type.
+ */
+function parseProperties(value: string): RequestProperty[] | null {
+    const properties: RequestProperty[] = [];
+
+    for (const segment of splitTopLevel(value)) {
+        const trimmed = segment.trim();
+        if (!trimmed) {
+            continue;
         }
-    } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        vscode.window.showErrorMessage(`Failed to create request/handler: ${message}`);
+
+        const match = trimmed.match(/^(.+?)\s+([a-zA-Z_][a-zA-Z0-9_]*)$/);
+        if (!match || !isValidTypeName(match[1])) {
+            return null;
+        }
+
+        properties.push({ type: match[1], name: match[2] });
     }
+
+    return properties;
+}
+
+/**
+ * Checks that a value looks like a C# type name (e.g., "int", "List<UserDto>", "string?", "int[]")
+ */
+function isValidTypeName(value: string): boolean {
+    if (!/^[a-zA-Z_][\w.]*(\s*<[\w.\s,<>?[\]()]+>)?\??(\[\])*\??$/.test(value)) {
+        return false;
+    }
+
+    // Generic brackets must balance
+    let depth = 0;
+    for (const char of value) {
+        if (char === '<') {
+            depth++;
+        } else if (char === '>') {
+            depth--;
+            if (depth < 0) {
+                return false;
+            }
+        }
+    }
+    return depth === 0;
+}
+
+/**
+ * Validates the properties input
+ */
+function validateProperties(value: string): string | undefined {
+    if (parseProperties(value) === null) {
+        return 'Invalid properties. Use "Type Name" pairs separated by commas (e.g., "string Name, int Age").';
+    }
+
+    return undefined; // Valid
 }
 
 /**
  * Validates the request name input
  */
-function validateRequestName(value: string): string | undefined {
+export function validateRequestName(value: string): string | undefined {
     if (!value || value.trim().length === 0) {
         return 'Name is required';
     }
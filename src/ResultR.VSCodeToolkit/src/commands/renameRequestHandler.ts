@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { RequestType } from '../types';
+import { findHandledRequestAtCursor, findRequestTypesAtCursor } from '../services/csharpParser';
+import { pickType } from '../services/navigation';
+import { createRequestRenameEdit } from '../services/renameRefactoring';
+import { getRequestsByName } from '../services/workspaceIndex';
+import { validateRequestName } from './newRequestHandler';
+
+/**
+ * Command to rename the request at the cursor (or the request handled by the handler at the cursor)
+ * together with its handler, dispatch sites and files, previewing the changes before they are applied
+ */
+export async function renameRequestHandler(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('No active editor found.');
+        return;
+    }
+
+    if (editor.document.languageId !== 'csharp') {
+        vscode.window.showWarningMessage('This command only works in C# files.');
+        return;
+    }
+
+    try {
+        const request = await findRequestToRename(editor.document, editor.selection.active);
+        if (request === null) {
+            vscode.window.showWarningMessage(
+                'The symbol under the cursor is not a ResultR request type (IRequest or IRequest<T>) or handler.'
+            );
+            return;
+        }
+        if (!request) {
+            return; // User cancelled
+        }
+
+        const oldName = request.typeName;
+        const featureLength = oldName.endsWith('Request') && oldName.length > 7 ? oldName.length - 7 : oldName.length;
+        const input = await vscode.window.showInputBox({
+            prompt: `Rename '${oldName}' and its handler`,
+            value: oldName,
+            valueSelection: [0, featureLength],
+            validateInput: value => validateRequestName(value) ?? validateUniqueName(value.trim(), request)
+        });
+
+        const newName = input?.trim();
+        if (!newName || newName === oldName) {
+            return; // User cancelled or kept the name
+        }
+
+        const edit = await createRequestRenameEdit(request, newName);
+        await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to rename request: ${message}`);
+    }
+}
+
+/**
+ * Finds the request at the cursor or the request the handler at the cursor handles, asking which one when
+ * the name is ambiguous. Returns null when there is none, or undefined when the user cancels.
+ */
+async function findRequestToRename(
+    document: vscode.TextDocument,
+    position: vscode.Position
+): Promise<RequestType | null | undefined> {
+    let requests = await findRequestTypesAtCursor(document, position);
+    if (requests.length === 0) {
+        requests = (await findHandledRequestAtCursor(document, position))?.requests ?? [];
+    }
+    if (requests.length === 0) {
+        return null;
+    }
+    return pickType(requests, `Select the request type for '${requests[0].typeName}'`);
+}
+
+/**
+ * Rejects a name already used by another request in the same namespace
+ */
+function validateUniqueName(newName: string, request: RequestType): string | undefined {
+    const existing = getRequestsByName(newName)
+        .some(other => other !== request && other.namespaceName === request.namespaceName);
+    return existing ? `A request named '${newName}' already exists in this namespace.` : undefined;
+}
@@ -0,0 +1,427 @@
+import * as vscode from 'vscode';
+import { HandlerType, SourceLocation } from '../types';
+import { findConstructorParameters } from '../services/csharpParser';
+import { TypeDeclaration, findTypeDeclarations } from '../services/csharpTokenizer';
+import {
+    DispatchGraph,
+    GraphEdge,
+    GraphLayout,
+    GraphNode,
+    filterDispatchChains,
+    findDispatchCycles,
+    findFanOutHotspots,
+    layoutDispatchGraph
+} from '../services/dispatchGraph';
+import { navigateToLocation } from '../services/navigation';
+import { preferSpecificHandlers } from '../services/requestAnalysis';
+import { getFullName } from '../services/typeResolver';
+import {
+    getAllHandlers,
+    getAllRequests,
+    getDispatchesForRequest,
+    getHandlersForRequest,
+    onDidChangeIndex,
+    whenIndexReady
+} from '../services/workspaceIndex';
+
+/**
+ * The graph shown in the panel, with where each node is declared
+ */
+interface GraphModel {
+    graph: DispatchGraph;
+    locations: Map<string, SourceLocation>;
+}
+
+/**
+ * The declarations in a version of a file, and the dependencies of the handlers declared in it
+ */
+interface FileInfo {
+    version: number;
+    declarations: TypeDeclaration[];
+    dependencies: Map<string, string[]>;
+}
+
+/**
+ * A message posted by the webview
+ */
+type GraphMessage = { command: 'ready' } | { command: 'navigate'; id: string } | { command: 'showAll'; value: boolean };
+
+// Number of distinct requests a handler dispatches before it is highlighted as a fan-out hotspot
+const FAN_OUT_THRESHOLD = 3;
+
+// Delay before redrawing the graph after the index changes
+const REFRESH_DELAY_MS = 500;
+
+// How far links curve out of a node, and how far links closing a cycle loop below the nodes
+const EDGE_BEND = 45;
+const BACK_EDGE_DEPTH = 60;
+
+// Styles of the graph page, using the colors of the current theme
+const GRAPH_STYLES = `
+    body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); padding: 0 12px; }
+    .toolbar { display: flex; flex-wrap: wrap; gap: 16px; align-items: center; padding: 8px 0; border-bottom: 1px solid var(--vscode-panel-border); }
+    .summary, .legend, .empty { color: var(--vscode-descriptionForeground); }
+    .swatch { display: inline-block; width: 10px; height: 10px; margin: 0 4px 0 8px; border: 2px solid; border-radius: 2px; }
+    .swatch.request { border-color: var(--vscode-charts-blue); }
+    .swatch.handler { border-color: var(--vscode-charts-green); }
+    .swatch.cycle { border-color: var(--vscode-errorForeground); }
+    .swatch.hotspot { border-color: var(--vscode-editorWarning-foreground); }
+    svg { display: block; margin-top: 12px; }
+    .node { cursor: pointer; }
+    .node rect { fill: var(--vscode-editor-background); stroke-width: 1.5; }
+    .node.request rect { stroke: var(--vscode-charts-blue); }
+    .node.handler rect { stroke: var(--vscode-charts-green); }
+    .node.hotspot rect { stroke: var(--vscode-editorWarning-foreground); stroke-width: 3; }
+    .node.cycle rect { stroke: var(--vscode-errorForeground); stroke-width: 3; }
+    .node:hover rect { fill: var(--vscode-list-hoverBackground); }
+    .node text { fill: var(--vscode-foreground); font-size: 12px; }
+    .node .label { font-weight: 600; }
+    .node .kind, .node .dependency { fill: var(--vscode-descriptionForeground); font-size: 11px; }
+    .divider { stroke: var(--vscode-panel-border); }
+    .edge { fill: none; stroke: var(--vscode-descriptionForeground); stroke-width: 1.2; }
+    .edge.dispatches { stroke: var(--vscode-charts-purple); stroke-width: 1.8; }
+    .edge.cycle { stroke: var(--vscode-errorForeground); stroke-width: 2.2; }
+    marker path { fill: var(--vscode-descriptionForeground); }
+`;
+
+// The open graph panel, reused when the command runs again
+let panel: vscode.WebviewPanel | undefined;
+
+// What was read from each document, reused until the document changes
+const fileInfoCache = new WeakMap<vscode.TextDocument, FileInfo>();
+
+/**
+ * Command to open a graph of which handlers dispatch which other requests and the services each handler
+ * depends on, highlighting dispatch cycles and handlers that dispatch many requests.
+ * Clicking a request or handler opens its declaration.
+ */
+export async function showDispatchGraph(): Promise<void> {
+    if (panel) {
+        panel.reveal();
+        return;
+    }
+
+    const graphPanel = vscode.window.createWebviewPanel(
+        'resultr.dispatchGraph',
+        'ResultR Dispatch Graph',
+        vscode.ViewColumn.Active,
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+    panel = graphPanel;
+
+    let model: GraphModel | undefined;
+    let showAll = false;
+    let isStale = false;
+    let pendingRefresh: NodeJS.Timeout | undefined;
+
+    const postGraph = () => {
+        if (model) {
+            graphPanel.webview.postMessage({ command: 'update', ...renderGraphContent(model.graph, showAll) });
+        }
+    };
+
+    // A hidden panel is only marked stale, and rebuilt once it is shown again
+    const refresh = async () => {
+        if (!graphPanel.visible) {
+            isStale = true;
+            return;
+        }
+        isStale = false;
+        try {
+            model = await buildGraphModel();
+            postGraph();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to build dispatch graph: ${message}`);
+        }
+    };
+
+    const subscriptions = [
+        graphPanel.webview.onDidReceiveMessage((message: GraphMessage) => {
+            if (message.command === 'ready') {
+                postGraph();
+            } else if (message.command === 'navigate') {
+                const location = model?.locations.get(message.id);
+                if (location) {
+                    navigateToLocation(location);
+                }
+            } else if (message.command === 'showAll') {
+                showAll = message.value;
+                postGraph();
+            }
+        }),
+        graphPanel.onDidChangeViewState(() => {
+            if (graphPanel.visible && isStale) {
+                refresh();
+            }
+        }),
+        onDidChangeIndex(() => {
+            if (pendingRefresh) {
+                clearTimeout(pendingRefresh);
+            }
+            pendingRefresh = setTimeout(() => {
+                pendingRefresh = undefined;
+                refresh();
+            }, REFRESH_DELAY_MS);
+        })
+    ];
+
+    graphPanel.onDidDispose(() => {
+        panel = undefined;
+        clearTimeout(pendingRefresh);
+        subscriptions.forEach(subscription => subscription.dispose());
+    });
+
+    graphPanel.webview.html = renderGraphPage(graphPanel.webview.cspSource);
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'ResultR: Building dispatch graph...' },
+        refresh
+    );
+}
+
+/**
+ * Builds the graph from the workspace index: each request links to its handlers, and each
+ * handler links to the requests dispatched inside its declaration. Dependencies come from the handler's constructor.
+ */
+async function buildGraphModel(): Promise<GraphModel> {
+    await whenIndexReady();
+
+    // Handlers often handle several requests or share a file, so each file is opened once per build
+    const documents = new Map<string, Thenable<vscode.TextDocument>>();
+    const openDocument = (fileUri: vscode.Uri) => {
+        let document = documents.get(fileUri.toString());
+        if (!document) {
+            document = vscode.workspace.openTextDocument(fileUri);
+            documents.set(fileUri.toString(), document);
+        }
+        return document;
+    };
+
+    const nodes = new Map<string, GraphNode>();
+    const edges = new Map<string, GraphEdge>();
+    const locations = new Map<string, SourceLocation>();
+    const addEdge = (edge: GraphEdge) => edges.set(`${edge.from}>${edge.to}`, edge);
+
+    const handlers = new Map<string, HandlerType>();
+    for (const handler of getAllHandlers()) {
+        handlers.set(handler.fullName ?? handler.typeName, handler);
+    }
+    for (const [id, handler] of handlers) {
+        const dependencies = getHandlerDependencies(await openDocument(handler.fileUri), handler.typeName);
+        nodes.set(id, { id, kind: 'handler', label: handler.typeName, dependencies });
+        locations.set(id, handler);
+    }
+
+    for (const request of getAllRequests()) {
+        const requestId = request.fullName ?? request.typeName;
+        nodes.set(requestId, { id: requestId, kind: 'request', label: request.typeName, dependencies: [] });
+        locations.set(requestId, request);
+
+        for (const handler of preferSpecificHandlers(getHandlersForRequest(request))) {
+            addEdge({ from: requestId, to: handler.fullName ?? handler.typeName, kind: 'handles' });
+        }
+
+        // A dispatch belongs to the innermost handler whose declaration contains it
+        for (const dispatch of getDispatchesForRequest(request)) {
+            const document = await openDocument(dispatch.fileUri);
+            const offset = document.offsetAt(dispatch.position);
+            const handlerId = getFileInfo(document).declarations
+                .filter(decl => decl.startIndex <= offset && offset < decl.declarationEnd)
+                .map(decl => getFullName(decl.namespaceName, decl.typeName, decl.containingTypeName))
+                .filter(fullName => handlers.has(fullName))
+                .pop();
+            if (handlerId) {
+                addEdge({ from: handlerId, to: requestId, kind: 'dispatches' });
+            }
+        }
+    }
+
+    return { graph: { nodes: [...nodes.values()], edges: [...edges.values()] }, locations };
+}
+
+/**
+ * Gets what is read from the document's current version, reading the type declarations when it has changed
+ */
+function getFileInfo(document: vscode.TextDocument): FileInfo {
+    let info = fileInfoCache.get(document);
+    if (!info || info.version !== document.version) {
+        info = { version: document.version, declarations: findTypeDeclarations(document.getText()), dependencies: new Map() };
+        fileInfoCache.set(document, info);
+    }
+    return info;
+}
+
+/**
+ * Gets the distinct constructor parameter types of a handler declared in the document
+ */
+function getHandlerDependencies(document: vscode.TextDocument, handlerTypeName: string): string[] {
+    const { dependencies } = getFileInfo(document);
+    let handlerDependencies = dependencies.get(handlerTypeName);
+    if (!handlerDependencies) {
+        const parameters = findConstructorParameters(document.getText(), handlerTypeName);
+        handlerDependencies = [...new Set(parameters.map(parameter => parameter.type))];
+        dependencies.set(handlerTypeName, handlerDependencies);
+    }
+    return handlerDependencies;
+}
+
+/**
+ * Renders the page the graph is shown in, with a toolbar for showing requests and handlers outside any
+ * dispatch chain. The summary and the graph are filled in by the update messages the extension posts.
+ */
+function renderGraphPage(cspSource: string): string {
+    const nonce = createNonce();
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>${GRAPH_STYLES}</style>
+</head>
+<body>
+<div class="toolbar">
+    <label><input type="checkbox" id="showAll"> Show all requests and handlers</label>
+    <span class="summary" id="summary"></span>
+    <span class="legend"><span class="swatch request"></span>Request <span class="swatch handler"></span>Handler <span class="swatch cycle"></span>Cycle <span class="swatch hotspot"></span>Fan-out ≥ ${FAN_OUT_THRESHOLD}</span>
+</div>
+<div id="graph"><p class="empty">Building dispatch graph...</p></div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const graph = document.getElementById('graph');
+    graph.addEventListener('click', event => {
+        const node = event.target.closest('[data-id]');
+        if (node) {
+            vscode.postMessage({ command: 'navigate', id: node.dataset.id });
+        }
+    });
+    document.getElementById('showAll').addEventListener('change', event => {
+        vscode.postMessage({ command: 'showAll', value: event.target.checked });
+    });
+    window.addEventListener('message', event => {
+        if (event.data.command === 'update') {
+            document.getElementById('summary').textContent = event.data.summary;
+            graph.innerHTML = event.data.content;
+        }
+    });
+    vscode.postMessage({ command: 'ready' });
+</script>
+</body>
+</html>`;
+}
+
+/**
+ * Renders the summary line and the graph as an SVG diagram
+ */
+function renderGraphContent(fullGraph: DispatchGraph, showAll: boolean): { summary: string; content: string } {
+    const graph = showAll ? fullGraph : filterDispatchChains(fullGraph);
+    const cycles = findDispatchCycles(graph);
+    const cycleNodes = new Set(cycles.flat());
+    const hotspots = findFanOutHotspots(graph, FAN_OUT_THRESHOLD);
+    const layout = layoutDispatchGraph(graph);
+    const dispatchCount = graph.edges.filter(edge => edge.kind === 'dispatches').length;
+
+    const summary = [
+        `${dispatchCount} ${dispatchCount === 1 ? 'dispatch' : 'dispatches'} between handlers`,
+        `${cycles.length} ${cycles.length === 1 ? 'cycle' : 'cycles'}`,
+        `${hotspots.size} fan-out ${hotspots.size === 1 ? 'hotspot' : 'hotspots'}`
+    ].join(' · ');
+    const content = graph.nodes.length > 0
+        ? renderSvg(layout, cycleNodes, hotspots)
+        : '<p class="empty">No handler dispatches another request. Check "Show all" to see every request and handler.</p>';
+    return { summary, content };
+}
+
+/**
+ * Renders the laid out graph: links as curves ending in an arrow, then the nodes on top of them
+ */
+function renderSvg(layout: GraphLayout, cycleNodes: Set<string>, hotspots: Map<string, number>): string {
+    const positions = new Map(layout.nodes.map(node => [node.node.id, node]));
+
+    const edges = layout.edges.map(({ edge, isBackEdge }) => {
+        const from = positions.get(edge.from);
+        const to = positions.get(edge.to);
+        if (!from || !to) {
+            return '';
+        }
+        const classes = ['edge', edge.kind];
+        if (cycleNodes.has(edge.from) && cycleNodes.has(edge.to)) {
+            classes.push('cycle');
+        }
+
+        // Links closing a cycle point back to an earlier column, so they loop below the nodes instead
+        let path: string;
+        if (isBackEdge) {
+            const x1 = from.x + from.width / 2;
+            const y1 = from.y + from.height;
+            const x2 = to.x + to.width / 2;
+            const y2 = to.y + to.height;
+            const loopY = Math.max(y1, y2) + BACK_EDGE_DEPTH;
+            path = `M ${x1} ${y1} C ${x1} ${loopY}, ${x2} ${loopY}, ${x2} ${y2}`;
+        } else {
+            const x1 = from.x + from.width;
+            const y1 = from.y + from.height / 2;
+            const x2 = to.x;
+            const y2 = to.y + to.height / 2;
+            path = `M ${x1} ${y1} C ${x1 + EDGE_BEND} ${y1}, ${x2 - EDGE_BEND} ${y2}, ${x2} ${y2}`;
+        }
+        return `<path class="${classes.join(' ')}" d="${path}" marker-end="url(#arrow)"/>`;
+    });
+
+    const nodes = layout.nodes.map(({ node, x, y, width, height }) => {
+        const classes = ['node', node.kind];
+        if (cycleNodes.has(node.id)) {
+            classes.push('cycle');
+        }
+        const fanOut = hotspots.get(node.id);
+        if (fanOut !== undefined) {
+            classes.push('hotspot');
+        }
+
+        const lines = [
+            `<text class="label" x="${x + 10}" y="${y + 18}">${escapeXml(truncate(node.label, 28))}</text>`,
+            `<text class="kind" x="${x + 10}" y="${y + 32}">${node.kind}${fanOut !== undefined ? ` · dispatches ${fanOut} requests` : ''}</text>`,
+            ...node.dependencies.map((dependency, index) =>
+                `<text class="dependency" x="${x + 16}" y="${y + 52 + index * 16}">${escapeXml(truncate(dependency, 30))}</text>`)
+        ];
+        if (node.dependencies.length > 0) {
+            lines.push(`<line class="divider" x1="${x}" y1="${y + 39}" x2="${x + width}" y2="${y + 39}"/>`);
+        }
+
+        return `<g class="${classes.join(' ')}" data-id="${escapeXml(node.id)}">`
+            + `<title>${escapeXml([node.id, ...node.dependencies.map(dependency => `depends on ${dependency}`)].join('\n'))}</title>`
+            + `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="4"/>`
+            + `${lines.join('')}</g>`;
+    });
+
+    const height = layout.height + (layout.edges.some(edge => edge.isBackEdge) ? BACK_EDGE_DEPTH : 0);
+    return `<svg width="${layout.width}" height="${height}" xmlns="http://www.w3.org/2000/svg">`
+        + '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">'
+        + '<path d="M 0 0 L 10 5 L 0 10 z"/></marker></defs>'
+        + `${edges.join('')}${nodes.join('')}</svg>`;
+}
+
+/**
+ * Shortens text to the given length, ending it with an ellipsis when cut
+ */
+function truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Escapes the characters that are special in XML and HTML
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Creates a random value allowing only the page's own script to run
+ */
+function createNonce(): string {
+    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    return Array.from({ length: 32 }, () => characters.charAt(Math.floor(Math.random() * characters.length))).join('');
+}
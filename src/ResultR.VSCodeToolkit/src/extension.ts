@@ -1,19 +1,164 @@
 import * as vscode from 'vscode';
+import { exportRequestCatalog } from './commands/exportRequestCatalog';
+import { findDispatchUsages } from './commands/findDispatchUsages';
+import { generateHandlerForRequest } from './commands/generateHandlerForRequest';
+import { generateHandlerTests } from './commands/generateHandlerTests';
 import { goToHandler } from './commands/goToHandler';
+import { goToRequest } from './commands/goToRequest';
+import { goToRequestOrHandler } from './commands/goToRequestOrHandler';
+import { moveRequestHandler } from './commands/moveRequestHandler';
+import { newFeatureSlice } from './commands/newFeatureSlice';
 import { newRequestHandler } from './commands/newRequestHandler';
+import { renameRequestHandler } from './commands/renameRequestHandler';
+import { showDispatchGraph } from './commands/showDispatchGraph';
+import { RequestCodeActionProvider } from './providers/requestCodeActionProvider';
+import { RequestCodeLensProvider } from './providers/requestCodeLensProvider';
+import { RequestExplorerProvider } from './providers/requestExplorerProvider';
+import { RequestHoverProvider } from './providers/requestHoverProvider';
+import { RequestImplementationProvider } from './providers/requestImplementationProvider';
+import { RequestSymbolProvider } from './providers/requestSymbolProvider';
+import { initializeDiagnostics } from './services/diagnostics';
+import { initializeMoveRefactoring } from './services/moveRefactoring';
+import { navigateToLocation } from './services/navigation';
+import { initializeWorkspaceIndex, rescanWorkspaceIndex } from './services/workspaceIndex';
 
 export function activate(context: vscode.ExtensionContext) {
+    initializeWorkspaceIndex(context);
+    initializeDiagnostics(context);
+    initializeMoveRefactoring(context);
+
     const goToHandlerDisposable = vscode.commands.registerCommand(
         'resultr.goToHandler',
         goToHandler
     );
 
+    const goToRequestDisposable = vscode.commands.registerCommand(
+        'resultr.goToRequest',
+        goToRequest
+    );
+
+    const goToRequestOrHandlerDisposable = vscode.commands.registerCommand(
+        'resultr.goToRequestOrHandler',
+        goToRequestOrHandler
+    );
+
+    const findDispatchUsagesDisposable = vscode.commands.registerCommand(
+        'resultr.findDispatchUsages',
+        findDispatchUsages
+    );
+
     const newRequestHandlerDisposable = vscode.commands.registerCommand(
         'resultr.newRequestHandler',
         newRequestHandler
     );
 
-    context.subscriptions.push(goToHandlerDisposable, newRequestHandlerDisposable);
+    const newFeatureSliceDisposable = vscode.commands.registerCommand(
+        'resultr.newFeatureSlice',
+        newFeatureSlice
+    );
+
+    const generateHandlerTestsDisposable = vscode.commands.registerCommand(
+        'resultr.generateHandlerTests',
+        generateHandlerTests
+    );
+
+    const renameRequestHandlerDisposable = vscode.commands.registerCommand(
+        'resultr.renameRequestHandler',
+        renameRequestHandler
+    );
+
+    const moveRequestHandlerDisposable = vscode.commands.registerCommand(
+        'resultr.moveRequestHandler',
+        moveRequestHandler
+    );
+
+    const exportRequestCatalogDisposable = vscode.commands.registerCommand(
+        'resultr.exportRequestCatalog',
+        exportRequestCatalog
+    );
+
+    const showDispatchGraphDisposable = vscode.commands.registerCommand(
+        'resultr.showDispatchGraph',
+        showDispatchGraph
+    );
+
+    // Internal command used by CodeLens entries to jump to a request or handler
+    const navigateToLocationDisposable = vscode.commands.registerCommand(
+        'resultr.navigateToLocation',
+        navigateToLocation
+    );
+
+    // Internal command used by the "Generate handler in new file" quick fix
+    const generateHandlerForRequestDisposable = vscode.commands.registerCommand(
+        'resultr.generateHandlerForRequest',
+        generateHandlerForRequest
+    );
+
+    const codeLensProvider = new RequestCodeLensProvider();
+    const codeLensDisposable = vscode.languages.registerCodeLensProvider(
+        { language: 'csharp' },
+        codeLensProvider
+    );
+
+    const codeActionDisposable = vscode.languages.registerCodeActionsProvider(
+        { language: 'csharp' },
+        new RequestCodeActionProvider(),
+        { providedCodeActionKinds: RequestCodeActionProvider.providedCodeActionKinds }
+    );
+
+    const implementationDisposable = vscode.languages.registerImplementationProvider(
+        { language: 'csharp' },
+        new RequestImplementationProvider()
+    );
+
+    const hoverDisposable = vscode.languages.registerHoverProvider(
+        { language: 'csharp' },
+        new RequestHoverProvider()
+    );
+
+    const workspaceSymbolDisposable = vscode.languages.registerWorkspaceSymbolProvider(
+        new RequestSymbolProvider()
+    );
+
+    const explorerProvider = new RequestExplorerProvider();
+    const explorerView = vscode.window.createTreeView('resultr.explorer', {
+        treeDataProvider: explorerProvider,
+        showCollapseAll: true
+    });
+
+    const refreshExplorerDisposable = vscode.commands.registerCommand(
+        'resultr.refreshExplorer',
+        () => {
+            // Scanning the workspace again also recovers from files that could not be indexed before
+            rescanWorkspaceIndex();
+            explorerProvider.refresh();
+        }
+    );
+
+    context.subscriptions.push(
+        goToHandlerDisposable,
+        goToRequestDisposable,
+        goToRequestOrHandlerDisposable,
+        findDispatchUsagesDisposable,
+        newRequestHandlerDisposable,
+        newFeatureSliceDisposable,
+        generateHandlerTestsDisposable,
+        renameRequestHandlerDisposable,
+        moveRequestHandlerDisposable,
+        exportRequestCatalogDisposable,
+        showDispatchGraphDisposable,
+        navigateToLocationDisposable,
+        generateHandlerForRequestDisposable,
+        codeLensProvider,
+        codeLensDisposable,
+        codeActionDisposable,
+        implementationDisposable,
+        hoverDisposable,
+        workspaceSymbolDisposable,
+        explorerProvider,
+        explorerView,
+        refreshExplorerDisposable
+    );
 }
 
 export function deactivate() {
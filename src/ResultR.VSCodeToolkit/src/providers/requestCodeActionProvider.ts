@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import { HandlerType, RequestType, getConfig } from '../types';
+import { findDeclarationEnd, findRequestsInText } from '../services/csharpParser';
+import { generateHandlerDeclaration, generateRequestDeclaration, getHandlerName } from '../services/codeGenerator';
+import { DiagnosticCodes } from '../services/requestAnalysis';
+import { findHandlersInText } from '../services/handlerLocator';
+import { getHandlersForRequest, getRequestsForHandler } from '../services/workspaceIndex';
+
+/**
+ * Offers quick fixes for incomplete request/handler pairs:
+ * - Requests without a handler can generate one in the same file or a new file
+ * - Handlers for an undeclared request type can create the request record
+ */
+export class RequestCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const text = document.getText();
+        const actions: vscode.CodeAction[] = [];
+
+        for (const request of findRequestsInText(text, document)) {
+            if (!request.range.intersection(range) || getHandlersForRequest(request).length > 0) {
+                continue;
+            }
+
+            const diagnostics = context.diagnostics.filter(diagnostic =>
+                diagnostic.code === DiagnosticCodes.missingHandler && diagnostic.range.intersection(request.range)
+            );
+            actions.push(
+                createHandlerInSameFileAction(document, text, request, diagnostics),
+                createHandlerInNewFileAction(request, diagnostics)
+            );
+        }
+
+        for (const handler of findHandlersInText(text, document)) {
+            const declarationLine = document.lineAt(handler.range.start.line);
+            if (!declarationLine.range.intersection(range) || handler.requestConstraints || getRequestsForHandler(handler).length > 0) {
+                continue;
+            }
+
+            actions.push(createRequestRecordAction(document, handler, declarationLine));
+        }
+
+        return actions;
+    }
+}
+
+/**
+ * Creates a quick fix that inserts a handler directly after the request declaration
+ */
+function createHandlerInSameFileAction(
+    document: vscode.TextDocument,
+    text: string,
+    request: RequestType,
+    diagnostics: vscode.Diagnostic[]
+): vscode.CodeAction {
+    const action = new vscode.CodeAction('Generate handler in same file', vscode.CodeActionKind.QuickFix);
+    action.diagnostics = diagnostics;
+    action.isPreferred = true;
+
+    const declarationEnd = findDeclarationEnd(text, document.offsetAt(request.range.end));
+    const insertPosition = document.positionAt(declarationEnd);
+    const indent = getIndentation(document.lineAt(request.range.start.line).text);
+    const handlerDeclaration = generateHandlerDeclaration(
+        request.typeName,
+        {
+            responseType: request.responseType,
+            properties: [],
+            hooks: getConfig().codeGeneration.includeHooks,
+            useValidationRules: false
+        },
+        indent
+    );
+
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.insert(document.uri, insertPosition, `\n\n${handlerDeclaration}`);
+    return action;
+}
+
+/**
+ * Creates a quick fix that writes the handler to its own file next to the request
+ */
+function createHandlerInNewFileAction(request: RequestType, diagnostics: vscode.Diagnostic[]): vscode.CodeAction {
+    const action = new vscode.CodeAction('Generate handler in new file', vscode.CodeActionKind.QuickFix);
+    action.diagnostics = diagnostics;
+    action.command = {
+        title: `Generate ${getHandlerName(request.typeName)}.cs`,
+        command: 'resultr.generateHandlerForRequest',
+        arguments: [request]
+    };
+    return action;
+}
+
+/**
+ * Creates a quick fix that declares the request record handled by a handler, directly above the handler
+ */
+function createRequestRecordAction(
+    document: vscode.TextDocument,
+    handler: HandlerType,
+    declarationLine: vscode.TextLine
+): vscode.CodeAction {
+    const action = new vscode.CodeAction(`Create request record '${handler.requestTypeName}'`, vscode.CodeActionKind.QuickFix);
+
+    // Insert above any attributes or doc comments that belong to the handler
+    let insertLine = declarationLine.lineNumber;
+    while (insertLine > 0 && /^\s*(\[|\/\/\/)/.test(document.lineAt(insertLine - 1).text)) {
+        insertLine--;
+    }
+
+    const indent = getIndentation(declarationLine.text);
+    const requestDeclaration = generateRequestDeclaration(
+        handler.requestTypeName,
+        { responseType: handler.responseType, properties: [], hooks: [], useValidationRules: false },
+        indent
+    );
+
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.insert(document.uri, new vscode.Position(insertLine, 0), `${requestDeclaration}\n\n`);
+    return action;
+}
+
+/**
+ * Gets the leading whitespace of a line
+ */
+function getIndentation(line: string): string {
+    return line.match(/^\s*/)?.[0] ?? '';
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { getConfig } from '../types';
+import { findRequestsInText } from '../services/csharpParser';
+import { findHandlersInText } from '../services/handlerLocator';
+import { preferSpecificHandlers } from '../services/requestAnalysis';
+import {
+    getDispatchesForRequest,
+    getHandlersForRequest,
+    getRequestsForHandler,
+    onDidChangeIndex,
+    whenIndexReady
+} from '../services/workspaceIndex';
+
+/**
+ * Shows the request/handler wiring above every request and handler declaration:
+ * - Requests link to their handler(s), or warn when no handler exists
+ * - Handlers link back to their request along with its dispatch count
+ */
+export class RequestCodeLensProvider implements vscode.CodeLensProvider {
+    private readonly onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+    private readonly subscriptions: vscode.Disposable[];
+
+    readonly onDidChangeCodeLenses = this.onDidChangeCodeLensesEmitter.event;
+
+    constructor() {
+        this.subscriptions = [
+            onDidChangeIndex(() => this.onDidChangeCodeLensesEmitter.fire()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('resultr.codeLens')) {
+                    this.onDidChangeCodeLensesEmitter.fire();
+                }
+            })
+        ];
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+        if (!getConfig().codeLens.enabled) {
+            return [];
+        }
+
+        await whenIndexReady();
+
+        const text = document.getText();
+        const lenses: vscode.CodeLens[] = [];
+
+        for (const request of findRequestsInText(text, document)) {
+            const handlers = preferSpecificHandlers(getHandlersForRequest(request));
+            const lensRange = new vscode.Range(request.range.start, request.range.start);
+
+            if (handlers.length === 0) {
+                lenses.push(new vscode.CodeLens(lensRange, {
+                    title: '⚠ no handler',
+                    tooltip: `No IRequestHandler found for '${request.typeName}'`,
+                    command: ''
+                }));
+                continue;
+            }
+
+            for (const handler of handlers) {
+                lenses.push(new vscode.CodeLens(lensRange, {
+                    title: `→ ${handler.typeName}`,
+                    tooltip: `Go to handler '${handler.typeName}'`,
+                    command: 'resultr.navigateToLocation',
+                    arguments: [handler]
+                }));
+            }
+        }
+
+        for (const handler of findHandlersInText(text, document)) {
+            const requests = getRequestsForHandler(handler);
+            const lensRange = new vscode.Range(handler.range.start, handler.range.start);
+
+            // An open generic handler handles every request matching its constraints
+            if (handler.requestConstraints) {
+                const constraintText = handler.requestConstraints.join(', ') || 'any request';
+                lenses.push(new vscode.CodeLens(lensRange, {
+                    title: `← ${requests.length} ${requests.length === 1 ? 'request' : 'requests'} (${constraintText})`,
+                    tooltip: `Show the requests '${handler.typeName}' handles`,
+                    command: requests.length > 0 ? 'editor.action.showReferences' : '',
+                    arguments: [
+                        document.uri,
+                        handler.range.start,
+                        requests.map(request => new vscode.Location(request.fileUri, request.range))
+                    ]
+                }));
+                continue;
+            }
+
+            if (requests.length === 0) {
+                const dispatchText = formatDispatchCount(getDispatchesForRequest(handler.requestTypeName).length);
+                lenses.push(new vscode.CodeLens(lensRange, {
+                    title: `⚠ ${handler.requestTypeName} not found · ${dispatchText}`,
+                    tooltip: `No request type named '${handler.requestTypeName}' found in the workspace`,
+                    command: ''
+                }));
+                continue;
+            }
+
+            // An ambiguous request type name gets a lens per candidate, labeled with its namespace
+            for (const request of requests) {
+                const requestLabel = requests.length > 1
+                    ? `${handler.requestTypeName} (${request.namespaceName ?? 'global namespace'})`
+                    : handler.requestTypeName;
+                lenses.push(new vscode.CodeLens(lensRange, {
+                    title: `← ${requestLabel} · ${formatDispatchCount(getDispatchesForRequest(request).length)}`,
+                    tooltip: `Go to request '${request.fullName ?? request.typeName}'`,
+                    command: 'resultr.navigateToLocation',
+                    arguments: [request]
+                }));
+            }
+        }
+
+        return lenses;
+    }
+
+    dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.onDidChangeCodeLensesEmitter.dispose();
+    }
+}
+
+/**
+ * Formats a dispatch count for a code lens title (e.g., "1 dispatch", "3 dispatches")
+ */
+function formatDispatchCount(count: number): string {
+    return `${count} ${count === 1 ? 'dispatch' : 'dispatches'}`;
+}
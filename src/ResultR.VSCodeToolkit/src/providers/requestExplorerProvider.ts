@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { HandlerType, RequestType } from '../types';
+import { findClosestProject, findProjectFiles, getProjectName } from '../services/projectLocator';
+import { preferSpecificHandlers } from '../services/requestAnalysis';
+import { getAllRequests, getHandlersForRequest, onDidChangeIndex, whenIndexReady } from '../services/workspaceIndex';
+
+// Delay before refreshing the tree after the index changes
+const REFRESH_DELAY_MS = 300;
+
+// Label of the group for requests that are not inside any project folder
+const NO_PROJECT_LABEL = '(no project)';
+
+// Label of the group for requests declared outside any namespace
+const GLOBAL_NAMESPACE_LABEL = '(global namespace)';
+
+/**
+ * A node in the ResultR Explorer tree
+ */
+type ExplorerNode =
+    | { kind: 'project'; label: string; csprojUri: vscode.Uri | null; requests: RequestType[] }
+    | { kind: 'namespace'; label: string; requests: RequestType[] }
+    | { kind: 'request'; request: RequestType; handlers: HandlerType[] }
+    | { kind: 'handler'; handler: HandlerType };
+
+/**
+ * Shows every request in the workspace grouped by project and namespace,
+ * with the handler(s) of each request as its children.
+ */
+export class RequestExplorerProvider implements vscode.TreeDataProvider<ExplorerNode> {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+    private readonly subscriptions: vscode.Disposable[];
+    private projectFiles: Promise<vscode.Uri[]> | undefined;
+    private pendingRefresh: NodeJS.Timeout | undefined;
+
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    constructor() {
+        const projectWatcher = vscode.workspace.createFileSystemWatcher('**/*.csproj');
+        const resetProjects = () => {
+            this.projectFiles = undefined;
+            this.scheduleRefresh();
+        };
+
+        this.subscriptions = [
+            projectWatcher,
+            projectWatcher.onDidCreate(resetProjects),
+            projectWatcher.onDidDelete(resetProjects),
+            onDidChangeIndex(() => this.scheduleRefresh()),
+            vscode.workspace.onDidChangeWorkspaceFolders(resetProjects)
+        ];
+    }
+
+    /**
+     * Reloads the project list and redraws the whole tree
+     */
+    refresh(): void {
+        this.projectFiles = undefined;
+        this.onDidChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(node: ExplorerNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'project': {
+                const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('project');
+                item.description = `${node.requests.length} request${node.requests.length === 1 ? '' : 's'}`;
+                item.tooltip = node.csprojUri ? vscode.workspace.asRelativePath(node.csprojUri) : undefined;
+                item.contextValue = 'resultrProject';
+                return item;
+            }
+            case 'namespace': {
+                const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+                item.contextValue = 'resultrNamespace';
+                return item;
+            }
+            case 'request':
+                return this.createRequestItem(node.request, node.handlers);
+            case 'handler': {
+                const { handler } = node;
+                const item = new vscode.TreeItem(handler.typeName, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = new vscode.ThemeIcon('symbol-method');
+                item.description = path.basename(handler.fileUri.fsPath);
+                item.tooltip = vscode.workspace.asRelativePath(handler.fileUri);
+                item.command = createNavigateCommand(handler);
+                item.contextValue = 'resultrHandler';
+                return item;
+            }
+        }
+    }
+
+    async getChildren(node?: ExplorerNode): Promise<ExplorerNode[]> {
+        if (!node) {
+            await whenIndexReady();
+            return this.getProjectNodes();
+        }
+
+        switch (node.kind) {
+            case 'project':
+                return groupBy(node.requests, request => request.namespaceName ?? GLOBAL_NAMESPACE_LABEL)
+                    .map(([label, requests]) => ({ kind: 'namespace', label, requests }));
+            case 'namespace':
+                return [...node.requests]
+                    .sort((a, b) => a.typeName.localeCompare(b.typeName))
+                    .map(request => ({
+                        kind: 'request',
+                        request,
+                        handlers: preferSpecificHandlers(getHandlersForRequest(request))
+                    }));
+            case 'request':
+                return node.handlers.map(handler => ({ kind: 'handler', handler }));
+            case 'handler':
+                return [];
+        }
+    }
+
+    dispose(): void {
+        clearTimeout(this.pendingRefresh);
+        this.onDidChangeTreeDataEmitter.dispose();
+        this.subscriptions.forEach(subscription => subscription.dispose());
+    }
+
+    /**
+     * Creates the tree item for a request: the icon shows whether it returns a value,
+     * and requests without a handler are flagged with a warning
+     */
+    private createRequestItem(request: RequestType, handlers: HandlerType[]): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            request.typeName,
+            handlers.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+
+        const signature = request.responseType ? `IRequest<${request.responseType}>` : 'IRequest';
+        if (handlers.length === 0) {
+            item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+            item.description = `${signature} · ⚠ no handler`;
+        } else {
+            item.iconPath = new vscode.ThemeIcon(request.responseType ? 'symbol-interface' : 'symbol-event');
+            item.description = signature;
+        }
+
+        item.tooltip = `${signature} · ${vscode.workspace.asRelativePath(request.fileUri)}`;
+        item.command = createNavigateCommand(request);
+        item.contextValue = handlers.length === 0 ? 'resultrRequestWithoutHandler' : 'resultrRequest';
+        return item;
+    }
+
+    /**
+     * Groups every indexed request by the closest project containing its file
+     */
+    private async getProjectNodes(): Promise<ExplorerNode[]> {
+        if (!this.projectFiles) {
+            this.projectFiles = findProjectFiles();
+        }
+        const projectFiles = await this.projectFiles;
+
+        const requestsByProject = new Map<string, { csprojUri: vscode.Uri | null; requests: RequestType[] }>();
+        for (const request of getAllRequests()) {
+            const csprojUri = findClosestProject(request.fileUri, projectFiles);
+            const key = csprojUri?.toString() ?? '';
+            let group = requestsByProject.get(key);
+            if (!group) {
+                group = { csprojUri, requests: [] };
+                requestsByProject.set(key, group);
+            }
+            group.requests.push(request);
+        }
+
+        return [...requestsByProject.values()]
+            .map(({ csprojUri, requests }) => ({
+                kind: 'project' as const,
+                label: csprojUri ? getProjectName(csprojUri) : NO_PROJECT_LABEL,
+                csprojUri,
+                requests
+            }))
+            .sort((a, b) => a.label.localeCompare(b.label));
+    }
+
+    /**
+     * Refreshes the tree shortly after the index stops changing
+     */
+    private scheduleRefresh(): void {
+        clearTimeout(this.pendingRefresh);
+        this.pendingRefresh = setTimeout(() => {
+            this.pendingRefresh = undefined;
+            this.onDidChangeTreeDataEmitter.fire();
+        }, REFRESH_DELAY_MS);
+    }
+}
+
+/**
+ * Creates the command that opens a request or handler when its tree item is clicked
+ */
+function createNavigateCommand(location: RequestType | HandlerType): vscode.Command {
+    return {
+        title: 'Open',
+        command: 'resultr.navigateToLocation',
+        arguments: [location]
+    };
+}
+
+/**
+ * Groups items by key, sorted by key
+ */
+function groupBy<T>(items: T[], getKey: (item: T) => string): [string, T[]][] {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const key = getKey(item);
+        const group = groups.get(key);
+        if (group) {
+            group.push(item);
+        } else {
+            groups.set(key, [item]);
+        }
+    }
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { RequestType } from '../types';
+import { findPipelineHooks, findRequestTypesAtCursor } from '../services/csharpParser';
+import { findDispatchesInText } from '../services/dispatchLocator';
+import { findHandlersForRequest } from '../services/handlerLocator';
+import { resolveRequestReference, whenIndexReady } from '../services/workspaceIndex';
+
+/**
+ * Summarizes how a request is handled when hovering over its name or over a
+ * Dispatch(new ...) call: the handler, its response type, the pipeline hooks it implements and its file
+ */
+export class RequestHoverProvider implements vscode.HoverProvider {
+    async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | null> {
+        await whenIndexReady();
+
+        const dispatch = findDispatchesInText(document.getText(), document)
+            .find(site => site.range.contains(position));
+        const requests = dispatch
+            ? resolveRequestReference(dispatch.requestTypeReference, dispatch.referenceContext)
+            : await findRequestTypesAtCursor(document, position);
+        if (requests.length === 0) {
+            return null;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        for (const request of requests) {
+            await appendRequestSummary(markdown, request);
+        }
+
+        return new vscode.Hover(markdown, dispatch?.range ?? document.getWordRangeAtPosition(position));
+    }
+}
+
+/**
+ * Appends the request's signature and a line per handler to the hover
+ */
+async function appendRequestSummary(markdown: vscode.MarkdownString, request: RequestType): Promise<void> {
+    const signature = request.responseType ? `IRequest<${request.responseType}>` : 'IRequest';
+    markdown.appendMarkdown(`**${request.fullName ?? request.typeName}** · \`${signature}\`\n\n`);
+
+    const handlers = await findHandlersForRequest(request);
+    if (handlers.length === 0) {
+        markdown.appendMarkdown('⚠ No handler found. Dispatching it will fail at runtime.\n\n');
+        return;
+    }
+
+    for (const handler of handlers) {
+        const document = await vscode.workspace.openTextDocument(handler.fileUri);
+        const hooks = findPipelineHooks(document.getText(), handler.typeName);
+        const fileLink = handler.fileUri.with({ fragment: `L${handler.position.line + 1}` });
+
+        const response = handler.responseType ? `→ \`${handler.responseType}\`` : '(no response)';
+        markdown.appendMarkdown(`Handled by \`${handler.typeName}\` ${response}  \n`);
+        markdown.appendMarkdown(`Hooks: ${hooks.length > 0 ? hooks.join(', ') : 'none'}  \n`);
+        markdown.appendMarkdown(`[${vscode.workspace.asRelativePath(handler.fileUri)}](${fileLink})\n\n`);
+    }
+}
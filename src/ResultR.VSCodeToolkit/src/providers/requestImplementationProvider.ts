@@ -0,0 +1,24 @@
+import * as vscode from 'vscode';
+import { findRequestTypesAtCursor } from '../services/csharpParser';
+import { findHandlersForRequest } from '../services/handlerLocator';
+
+/**
+ * Makes "Go to Implementation" (Ctrl+F12) on a request type go to its handler(s).
+ * Definitions are left to the C# extension.
+ */
+export class RequestImplementationProvider implements vscode.ImplementationProvider {
+    async provideImplementation(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.Location[]> {
+        const locations: vscode.Location[] = [];
+
+        for (const request of await findRequestTypesAtCursor(document, position)) {
+            for (const handler of await findHandlersForRequest(request)) {
+                locations.push(new vscode.Location(handler.fileUri, handler.range));
+            }
+        }
+
+        return locations;
+    }
+}
@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { getAllHandlers, getAllRequests, whenIndexReady } from '../services/workspaceIndex';
+
+/**
+ * Makes requests and handlers searchable through "Go to Symbol in Workspace" (Ctrl+T)
+ */
+export class RequestSymbolProvider implements vscode.WorkspaceSymbolProvider {
+    async provideWorkspaceSymbols(query: string): Promise<vscode.SymbolInformation[]> {
+        await whenIndexReady();
+
+        const symbols: vscode.SymbolInformation[] = [];
+
+        for (const request of getAllRequests()) {
+            if (matchesQuery(request.typeName, query)) {
+                const signature = request.responseType ? `IRequest<${request.responseType}>` : 'IRequest';
+                symbols.push(new vscode.SymbolInformation(
+                    request.typeName,
+                    vscode.SymbolKind.Class,
+                    formatContainerName(signature, request.namespaceName),
+                    new vscode.Location(request.fileUri, request.range)
+                ));
+            }
+        }
+
+        for (const handler of getAllHandlers()) {
+            if (matchesQuery(handler.typeName, query)) {
+                const signature = handler.responseType
+                    ? `IRequestHandler<${handler.requestTypeName}, ${handler.responseType}>`
+                    : `IRequestHandler<${handler.requestTypeName}>`;
+                symbols.push(new vscode.SymbolInformation(
+                    handler.typeName,
+                    vscode.SymbolKind.Class,
+                    formatContainerName(signature, handler.namespaceName),
+                    new vscode.Location(handler.fileUri, handler.range)
+                ));
+            }
+        }
+
+        return symbols;
+    }
+}
+
+/**
+ * Checks whether the query's characters appear in the name in order (case-insensitive),
+ * which is how VS Code filters workspace symbols
+ */
+function matchesQuery(name: string, query: string): boolean {
+    const lowerName = name.toLowerCase();
+    let index = 0;
+    for (const char of query.toLowerCase()) {
+        index = lowerName.indexOf(char, index);
+        if (index === -1) {
+            return false;
+        }
+        index++;
+    }
+    return true;
+}
+
+/**
+ * Formats the container shown next to a symbol: its ResultR signature and namespace
+ */
+function formatContainerName(signature: string, namespaceName: string | null | undefined): string {
+    return namespaceName ? `${signature} · ${namespaceName}` : signature;
+}
@@ -0,0 +1,153 @@
+/**
+ * Formats the wiring problems found by the request analysis as JSON or SARIF for the command line analyzer.
+ * It does not depend on the VS Code API so it can be unit tested.
+ */
+import { DiagnosticCodes, SourceAnalysis, SourceTypeDeclaration } from './requestAnalysis';
+
+/**
+ * The formats an analysis report can be written as
+ */
+export type ReportFormat = 'json' | 'sarif';
+
+/**
+ * The severity of a wiring problem
+ */
+export type ProblemSeverity = SourceAnalysis['problems'][number]['severity'];
+
+/**
+ * The tool information included in a SARIF report
+ */
+export interface ReportTool {
+    name: string;
+    version: string;
+}
+
+// The rules reported in SARIF, keyed by diagnostic code
+const RULES: Record<string, { name: string; description: string }> = {
+    [DiagnosticCodes.missingHandler]: {
+        name: 'MissingHandler',
+        description: 'A request has no IRequestHandler, so dispatching it fails at runtime.'
+    },
+    [DiagnosticCodes.duplicateHandler]: {
+        name: 'DuplicateHandler',
+        description: 'A request has more than one IRequestHandler; only the last registered one is used.'
+    },
+    [DiagnosticCodes.responseTypeMismatch]: {
+        name: 'ResponseTypeMismatch',
+        description: "A handler's response type differs from its request's IRequest<T>."
+    }
+};
+
+// Where the rules are documented
+const INFORMATION_URI = 'https://github.com/AlanBarber/ResultR';
+
+/**
+ * Formats the analysis in the given format, with problems sorted by file and line
+ */
+export function formatAnalysisReport(analysis: SourceAnalysis, format: ReportFormat, tool: ReportTool): string {
+    switch (format) {
+        case 'json':
+            return formatJson(analysis);
+        case 'sarif':
+            return formatSarif(analysis, tool);
+    }
+}
+
+/**
+ * Counts the problems at or above the given severity
+ */
+export function countProblems(analysis: SourceAnalysis, minimumSeverity: ProblemSeverity): number {
+    return analysis.problems.filter(problem => minimumSeverity === 'warning' || problem.severity === 'error').length;
+}
+
+/**
+ * Formats the analysis as JSON with a summary and the location of each problem
+ */
+function formatJson(analysis: SourceAnalysis): string {
+    const report = {
+        summary: {
+            requests: analysis.requests.length,
+            handlers: analysis.handlers.length,
+            errors: countProblems(analysis, 'error'),
+            warnings: analysis.problems.length - countProblems(analysis, 'error')
+        },
+        problems: sortProblems(analysis).map(problem => ({
+            code: problem.code,
+            severity: problem.severity,
+            message: problem.message,
+            locations: problem.locations.map(({ fullName, declaration }) => ({
+                type: fullName,
+                file: declaration.filePath,
+                line: declaration.line,
+                column: declaration.column
+            }))
+        }))
+    };
+    return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * Formats the analysis as a SARIF 2.1.0 log with a result per problem. The first location is where the
+ * problem is reported; the other handlers of a request with several handlers are related locations.
+ */
+function formatSarif(analysis: SourceAnalysis, tool: ReportTool): string {
+    const ruleIds = Object.keys(RULES);
+    const log = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: tool.name,
+                    version: tool.version,
+                    informationUri: INFORMATION_URI,
+                    rules: ruleIds.map(id => ({
+                        id,
+                        name: RULES[id].name,
+                        shortDescription: { text: RULES[id].description }
+                    }))
+                }
+            },
+            results: sortProblems(analysis).map(problem => {
+                const [primary, ...related] = problem.locations.map(location => location.declaration);
+                return {
+                    ruleId: problem.code,
+                    ruleIndex: ruleIds.indexOf(problem.code),
+                    level: problem.severity,
+                    message: { text: problem.message },
+                    locations: [toSarifLocation(primary)],
+                    ...(related.length > 0 ? { relatedLocations: related.map(toSarifLocation) } : {})
+                };
+            })
+        }]
+    };
+    return `${JSON.stringify(log, null, 2)}\n`;
+}
+
+/**
+ * Creates a SARIF physical location for the name of a declared type
+ */
+function toSarifLocation(declaration: SourceTypeDeclaration): object {
+    return {
+        physicalLocation: {
+            artifactLocation: { uri: encodeURI(declaration.filePath) },
+            region: {
+                startLine: declaration.line,
+                startColumn: declaration.column,
+                endLine: declaration.endLine,
+                endColumn: declaration.endColumn
+            }
+        }
+    };
+}
+
+/**
+ * Sorts problems by the file and line they are reported at, then by code
+ */
+function sortProblems(analysis: SourceAnalysis): SourceAnalysis['problems'] {
+    return [...analysis.problems].sort((a, b) => {
+        const first = a.locations[0].declaration;
+        const second = b.locations[0].declaration;
+        return first.filePath.localeCompare(second.filePath) || first.line - second.line || a.code.localeCompare(b.code);
+    });
+}
@@ -1,82 +1,561 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { getConfig } from '../types';
+import {
+    FeatureOperation,
+    PipelineHook,
+    RequestProperty,
+    ScaffoldOptions,
+    ScaffoldTemplate,
+    getConfig
+} from '../types';
+import { findClosestProject, findProjectFiles } from './projectLocator';
+import { getValidationRule } from './validationRules';
+
+// Template for a request that does not return a value
+const REQUEST_TEMPLATE = `public record {requestName}({parameters}) : IRequest;`;
+
+// Template for a request that returns a value
+const REQUEST_WITH_RESPONSE_TEMPLATE = `public record {requestName}({parameters}) : IRequest<{responseType}>;`;
+
+// Template for a handler of a request that does not return a value
+const HANDLER_TEMPLATE = `public class {handlerName} : IRequestHandler<{requestName}>
+{
+{members}
+}`;
 
-// Template for file-scoped namespace (C# 10+)
-const FILE_SCOPED_TEMPLATE = `using ResultR;
+// Template for a handler of a request that returns a value
+const HANDLER_WITH_RESPONSE_TEMPLATE = `public class {handlerName} : IRequestHandler<{requestName}, {responseType}>
+{
+{members}
+}`;
 
-namespace {namespace};
+// Template for the HandleAsync method every handler implements
+const HANDLE_ASYNC_TEMPLATE = `public async ValueTask<{resultType}> HandleAsync({requestName} request, CancellationToken cancellationToken)
+{
+    throw new NotImplementedException();
+}`;
 
-public record {name}Request() : IRequest;
+// Templates for the optional pipeline hooks (default interface methods on IRequestHandler)
+const HOOK_TEMPLATES: Record<PipelineHook, string> = {
+    ValidateAsync: `public ValueTask<Result> ValidateAsync({requestName} request)
+{
+    return new(Result.Success());
+}`,
+    BeforeHandleAsync: `public ValueTask BeforeHandleAsync({requestName} request)
+{
+    return default;
+}`,
+    AfterHandleAsync: `public ValueTask AfterHandleAsync({requestName} request, {resultType} result)
+{
+    return default;
+}`
+};
 
-public class {name}Handler : IRequestHandler<{name}Request>
+// Template for a ValidateAsync hook that validates the request with ResultR.Validation
+const VALIDATION_HOOK_TEMPLATE = `public ValueTask<Result> ValidateAsync({requestName} request)
 {
-    public async ValueTask<Result> HandleAsync({name}Request request, CancellationToken cancellationToken)
-    {
-        throw new NotImplementedException();
+    return Validator.For(request)
+{rules}
+        .ToResult();
+}`;
+
+// File extension and default workspace folder of user-defined scaffold templates
+const TEMPLATE_EXTENSION = '.cs.template';
+const WORKSPACE_TEMPLATES_FOLDER = ['.resultr', 'templates'];
+
+/**
+ * A project file and the folder it lives in
+ */
+export interface ProjectInfo {
+    csprojUri: vscode.Uri;
+    projectDir: vscode.Uri;
+    rootNamespace: string;
+}
+
+/**
+ * A file a scaffold is about to write
+ */
+interface PlannedFile {
+    uri: vscode.Uri;
+    content: string;
+}
+
+/**
+ * The pipeline hooks in the order the dispatcher invokes them
+ */
+export const PIPELINE_HOOKS: PipelineHook[] = ['ValidateAsync', 'BeforeHandleAsync', 'AfterHandleAsync'];
+
+/**
+ * Generates a new ResultR request and handler, from a user-defined template if one is given.
+ * The request and handler are written to one or two files depending on the configured layout;
+ * user-defined templates always produce a single file. Returns the files written.
+ */
+export async function generateRequestHandler(
+    requestName: string,
+    targetFolder: vscode.Uri,
+    options: ScaffoldOptions = { responseType: null, properties: [], hooks: [], useValidationRules: false },
+    template?: ScaffoldTemplate
+): Promise<vscode.Uri[] | null> {
+    if (!template) {
+        return writeNewFiles(await planRequestHandlerFiles(requestName, targetFolder, options));
     }
+
+    const filePath = vscode.Uri.joinPath(targetFolder, `${requestName}.cs`);
+    const namespaceName = await calculateNamespace(targetFolder);
+    const content = await renderScaffoldTemplate(template, requestName, namespaceName, options);
+    return writeNewFiles([{ uri: filePath, content }]);
 }
-`;
 
-// Template for block-scoped namespace (traditional)
-const BLOCK_SCOPED_TEMPLATE = `using ResultR;
+/**
+ * An {Entity}Dto the workspace already declares, which a feature slice reuses
+ */
+export interface ExistingDto {
+    /** The namespace the DTO is declared in, imported by the requests and handlers that return it */
+    namespaceName: string | null;
+    /** The DTO's constructor parameters */
+    properties: RequestProperty[];
+}
 
-namespace {namespace}
-{
-    public record {name}Request() : IRequest;
+/**
+ * Generates a folder named after the entity containing a request and handler for each operation,
+ * plus an {Entity}Dto record when the workspace doesn't declare one yet (existingDto is null).
+ * Returns the files written.
+ */
+export async function generateFeatureSlice(
+    entityName: string,
+    operations: FeatureOperation[],
+    targetFolder: vscode.Uri,
+    existingDto: ExistingDto | null
+): Promise<vscode.Uri[] | null> {
+    const sliceFolder = vscode.Uri.joinPath(targetFolder, pluralize(entityName));
+    const dtoName = getDtoName(entityName);
+    const hooks = getConfig().codeGeneration.includeHooks;
+
+    // The Create request takes the DTO's properties except its Id, which the handler assigns. A DTO generated
+    // here only has an Id, so Create starts out empty for the user to fill in.
+    const createProperties = (existingDto?.properties ?? []).filter(property => property.name !== 'Id');
+    const dtoUsings = existingDto?.namespaceName ? [existingDto.namespaceName] : [];
+
+    const files: PlannedFile[] = [];
+    for (const operation of operations) {
+        const request = getFeatureRequest(entityName, dtoName, operation, createProperties);
+        const options = { responseType: request.responseType, properties: request.properties, hooks, useValidationRules: false };
+        files.push(...await planRequestHandlerFiles(request.name, sliceFolder, options, request.responseType ? dtoUsings : []));
+    }
 
-    public class {name}Handler : IRequestHandler<{name}Request>
-    {
-        public async ValueTask<Result> HandleAsync({name}Request request, CancellationToken cancellationToken)
-        {
-            throw new NotImplementedException();
-        }
+    const usesDto = operations.some(operation => getFeatureRequest(entityName, dtoName, operation, []).responseType !== null);
+    if (usesDto && !existingDto) {
+        files.push({
+            uri: vscode.Uri.joinPath(sliceFolder, `${dtoName}.cs`),
+            content: wrapInNamespace(
+                `public record ${dtoName}(int Id);`,
+                await calculateNamespace(sliceFolder),
+                await detectNamespaceStyle(sliceFolder),
+                []
+            )
+        });
     }
+
+    return writeNewFiles(files);
 }
-`;
 
 /**
- * Generates a new ResultR request and handler file
+ * Describes the request scaffolded for a feature slice operation
  */
-export async function generateRequestHandler(
+function getFeatureRequest(
+    entityName: string,
+    dtoName: string,
+    operation: FeatureOperation,
+    createProperties: RequestProperty[]
+): { name: string; responseType: string | null; properties: RequestProperty[] } {
+    const id: RequestProperty[] = [{ type: 'int', name: 'Id' }];
+    switch (operation) {
+        case 'Create':
+            return { name: `Create${entityName}`, responseType: dtoName, properties: createProperties };
+        case 'Get':
+            return { name: `Get${entityName}`, responseType: dtoName, properties: id };
+        case 'List':
+            return { name: `List${pluralize(entityName)}`, responseType: `IReadOnlyList<${dtoName}>`, properties: [] };
+        case 'Update':
+            return { name: `Update${entityName}`, responseType: null, properties: id };
+        case 'Delete':
+            return { name: `Delete${entityName}`, responseType: null, properties: id };
+    }
+}
+
+/**
+ * Naively pluralizes an entity name (e.g., "User" -> "Users", "Category" -> "Categories")
+ */
+export function pluralize(name: string): string {
+    if (/[^aeiou]y$/i.test(name)) {
+        return `${name.slice(0, -1)}ies`;
+    }
+    if (/(?:s|x|z|ch|sh)$/i.test(name)) {
+        return `${name}es`;
+    }
+    return `${name}s`;
+}
+
+/**
+ * Gets the name of the DTO a feature slice's requests return (e.g., "User" -> "UserDto")
+ */
+export function getDtoName(entityName: string): string {
+    return `${entityName}Dto`;
+}
+
+/**
+ * Plans the file(s) for a request and handler generated from the built-in templates, following the configured layout.
+ * The extra usings (e.g., the namespace of a DTO the request returns) are added to files in other namespaces.
+ */
+async function planRequestHandlerFiles(
     requestName: string,
-    targetFolder: vscode.Uri
-): Promise<vscode.Uri | null> {
-    const fileName = `${requestName}.cs`;
-    const filePath = vscode.Uri.joinPath(targetFolder, fileName);
+    targetFolder: vscode.Uri,
+    options: ScaffoldOptions,
+    extraUsings: string[] = []
+): Promise<PlannedFile[]> {
+    const requestTypeName = `${requestName}Request`;
+    const layout = getConfig().codeGeneration.layout;
+
+    if (layout === 'singleFile') {
+        // Calculate the namespace and detect its style from existing files
+        const namespaceName = await calculateNamespace(targetFolder);
+        const useFileScopedNamespace = await detectNamespaceStyle(targetFolder);
+
+        const declarations = [
+            generateRequestDeclaration(requestTypeName, options),
+            generateHandlerDeclaration(requestTypeName, options)
+        ].join('\n\n');
+        const usings = usesValidationRules(options) ? ['ResultR', 'ResultR.Validation'] : ['ResultR'];
+        usings.push(...extraUsings.filter(usingNamespace => usingNamespace !== namespaceName));
+        return [{
+            uri: vscode.Uri.joinPath(targetFolder, `${requestName}.cs`),
+            content: wrapInNamespace(declarations, namespaceName, useFileScopedNamespace, usings)
+        }];
+    }
 
-    // Check if file already exists
-    try {
-        await vscode.workspace.fs.stat(filePath);
-        vscode.window.showWarningMessage(`A file named '${fileName}' already exists in this location.`);
+    const requestFolder = layout === 'mirroredFolders'
+        ? getMirroredFolder(targetFolder, 'Requests') ?? vscode.Uri.joinPath(targetFolder, 'Requests')
+        : targetFolder;
+    const handlerFolder = layout === 'mirroredFolders'
+        ? getMirroredFolder(targetFolder, 'Handlers') ?? vscode.Uri.joinPath(targetFolder, 'Handlers')
+        : targetFolder;
+
+    // Each file gets the namespace of its own folder
+    const requestNamespace = await calculateNamespace(requestFolder);
+    return [
+        {
+            uri: vscode.Uri.joinPath(requestFolder, `${requestTypeName}.cs`),
+            content: wrapInNamespace(
+                generateRequestDeclaration(requestTypeName, options),
+                requestNamespace,
+                await detectNamespaceStyle(requestFolder),
+                ['ResultR', ...extraUsings.filter(usingNamespace => usingNamespace !== requestNamespace)]
+            )
+        },
+        {
+            uri: vscode.Uri.joinPath(handlerFolder, `${getHandlerName(requestTypeName)}.cs`),
+            content: await createHandlerFileContent(requestTypeName, options, handlerFolder, requestNamespace, extraUsings)
+        }
+    ];
+}
+
+/**
+ * Writes the planned files, or nothing if any of them already exists. Returns the files written.
+ */
+export async function writeNewFiles(files: PlannedFile[]): Promise<vscode.Uri[] | null> {
+    if (!await ensureFilesDoNotExist(files.map(file => file.uri))) {
         return null;
-    } catch {
-        // File doesn't exist, which is what we want
     }
 
-    // Detect namespace style from existing files
-    const useFileScopedNamespace = await detectNamespaceStyle(targetFolder);
+    for (const file of files) {
+        await writeTextFile(file.uri, file.content);
+    }
+    return files.map(file => file.uri);
+}
 
-    // Calculate the namespace
-    const namespaceName = await calculateNamespace(targetFolder);
+/**
+ * Gets the folder a handler for a request in the given folder belongs in.
+ * With the mirrored folders layout, a request below a Requests folder gets its handler in the matching Handlers folder.
+ */
+export function getHandlerFolderForRequest(requestFolder: vscode.Uri): vscode.Uri {
+    if (getConfig().codeGeneration.layout !== 'mirroredFolders') {
+        return requestFolder;
+    }
 
-    // Generate file content
-    const template = useFileScopedNamespace ? FILE_SCOPED_TEMPLATE : BLOCK_SCOPED_TEMPLATE;
-    const content = template
-        .replace(/{name}/g, requestName)
-        .replace(/{namespace}/g, namespaceName);
+    return getMirroredFolder(requestFolder, 'Handlers') ?? requestFolder;
+}
+
+/**
+ * Swaps the innermost Requests or Handlers segment of a folder path for the given counterpart
+ * (e.g., "Features/Requests/Users" -> "Features/Handlers/Users"), or returns null when the path has neither
+ */
+function getMirroredFolder(folderUri: vscode.Uri, counterpart: 'Requests' | 'Handlers'): vscode.Uri | null {
+    const segments = folderUri.path.split('/');
+    for (let i = segments.length - 1; i >= 0; i--) {
+        if (segments[i] === 'Requests' || segments[i] === 'Handlers') {
+            segments[i] = counterpart;
+            return folderUri.with({ path: segments.join('/') });
+        }
+    }
+    return null;
+}
+
+/**
+ * Warns and returns false if any of the files already exists
+ */
+async function ensureFilesDoNotExist(filePaths: vscode.Uri[]): Promise<boolean> {
+    for (const filePath of filePaths) {
+        try {
+            await vscode.workspace.fs.stat(filePath);
+            vscode.window.showWarningMessage(`A file named '${path.basename(filePath.fsPath)}' already exists in this location.`);
+            return false;
+        } catch {
+            // File doesn't exist, which is what we want
+        }
+    }
+    return true;
+}
+
+/**
+ * Writes a text file, creating its folder if needed
+ */
+async function writeTextFile(filePath: vscode.Uri, content: string): Promise<void> {
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(filePath, '..'));
 
-    // Write the file
     const encoder = new TextEncoder();
     await vscode.workspace.fs.writeFile(filePath, encoder.encode(content));
+}
+
+/**
+ * Finds the user-defined scaffold templates in each workspace folder's .resultr/templates folder
+ * and in the folder configured by resultr.codeGeneration.templatesPath
+ */
+export async function findScaffoldTemplates(): Promise<ScaffoldTemplate[]> {
+    const templatesPath = getConfig().codeGeneration.templatesPath.trim();
+    const templateFolders: vscode.Uri[] = [];
+
+    for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+        templateFolders.push(vscode.Uri.joinPath(workspaceFolder.uri, ...WORKSPACE_TEMPLATES_FOLDER));
+        if (templatesPath && !path.isAbsolute(templatesPath)) {
+            templateFolders.push(vscode.Uri.joinPath(workspaceFolder.uri, templatesPath));
+        }
+    }
+    if (templatesPath && path.isAbsolute(templatesPath)) {
+        templateFolders.push(vscode.Uri.file(templatesPath));
+    }
+
+    const templates: ScaffoldTemplate[] = [];
+    const seen = new Set<string>();
+
+    for (const folder of templateFolders) {
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(folder);
+        } catch {
+            continue; // Folder doesn't exist
+        }
+
+        for (const [fileName, fileType] of entries) {
+            const uri = vscode.Uri.joinPath(folder, fileName);
+            if (fileType !== vscode.FileType.File || !fileName.endsWith(TEMPLATE_EXTENSION) || seen.has(uri.toString())) {
+                continue;
+            }
+
+            seen.add(uri.toString());
+            templates.push({ name: fileName.slice(0, -TEMPLATE_EXTENSION.length), uri });
+        }
+    }
+
+    return templates;
+}
+
+/**
+ * Fills in the placeholders of a user-defined template.
+ * Unknown placeholders are left as-is so C# braces in the template are preserved.
+ */
+async function renderScaffoldTemplate(
+    template: ScaffoldTemplate,
+    requestName: string,
+    namespaceName: string,
+    options: ScaffoldOptions
+): Promise<string> {
+    const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(template.uri));
+
+    const requestTypeName = `${requestName}Request`;
+    const responseType = options.responseType;
+    const values: Record<string, string> = {
+        name: requestName,
+        namespace: namespaceName,
+        requestName: requestTypeName,
+        handlerName: getHandlerName(requestTypeName),
+        responseType: responseType ?? '',
+        properties: options.properties.map(property => `${property.type} ${property.name}`).join(', '),
+        requestInterface: responseType ? `IRequest<${responseType}>` : 'IRequest',
+        handlerInterface: responseType
+            ? `IRequestHandler<${requestTypeName}, ${responseType}>`
+            : `IRequestHandler<${requestTypeName}>`,
+        resultType: responseType ? `Result<${responseType}>` : 'Result'
+    };
+
+    return content.replace(/{(\w+)}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Generates a new file containing a handler for an existing request
+ */
+export async function generateHandlerFile(
+    requestTypeName: string,
+    options: ScaffoldOptions,
+    targetFolder: vscode.Uri,
+    requestNamespace: string | null
+): Promise<vscode.Uri | null> {
+    const filePath = vscode.Uri.joinPath(targetFolder, `${getHandlerName(requestTypeName)}.cs`);
+    if (!await ensureFilesDoNotExist([filePath])) {
+        return null;
+    }
+
+    const content = await createHandlerFileContent(requestTypeName, options, targetFolder, requestNamespace);
+    await writeTextFile(filePath, content);
 
     return filePath;
 }
 
+/**
+ * Generates the content of a file containing only a handler, importing the request's namespace when needed
+ */
+async function createHandlerFileContent(
+    requestTypeName: string,
+    options: ScaffoldOptions,
+    targetFolder: vscode.Uri,
+    requestNamespace: string | null,
+    extraUsings: string[] = []
+): Promise<string> {
+    const useFileScopedNamespace = await detectNamespaceStyle(targetFolder);
+    const namespaceName = await calculateNamespace(targetFolder);
+
+    // Import the request's namespace when the handler ends up in a different one
+    const usings = usesValidationRules(options) ? ['ResultR', 'ResultR.Validation'] : ['ResultR'];
+    for (const usingNamespace of [requestNamespace, ...extraUsings]) {
+        if (usingNamespace && usingNamespace !== namespaceName && !usings.includes(usingNamespace)) {
+            usings.push(usingNamespace);
+        }
+    }
+
+    return wrapInNamespace(
+        generateHandlerDeclaration(requestTypeName, options),
+        namespaceName,
+        useFileScopedNamespace,
+        usings
+    );
+}
+
+/**
+ * Generates a handler class declaration for a request, indented with the given prefix
+ */
+export function generateHandlerDeclaration(requestTypeName: string, options: ScaffoldOptions, indent = ''): string {
+    const template = options.responseType ? HANDLER_WITH_RESPONSE_TEMPLATE : HANDLER_TEMPLATE;
+
+    // Members follow the pipeline order: ValidateAsync, BeforeHandleAsync, HandleAsync, AfterHandleAsync
+    const hookTemplates = (hooks: PipelineHook[]) => PIPELINE_HOOKS
+        .filter(hook => hooks.includes(hook) && options.hooks.includes(hook))
+        .map(hook => hook === 'ValidateAsync' && usesValidationRules(options)
+            ? VALIDATION_HOOK_TEMPLATE.replace(/{rules}/g, generateValidationRules(options.properties))
+            : HOOK_TEMPLATES[hook]);
+    const members = [
+        ...hookTemplates(['ValidateAsync', 'BeforeHandleAsync']),
+        HANDLE_ASYNC_TEMPLATE,
+        ...hookTemplates(['AfterHandleAsync'])
+    ].map(member => indentLines(member, '    ')).join('\n\n');
+
+    const declaration = template
+        .replace(/{members}/g, members)
+        .replace(/{handlerName}/g, getHandlerName(requestTypeName))
+        .replace(/{requestName}/g, requestTypeName)
+        .replace(/{resultType}/g, options.responseType ? `Result<${options.responseType}>` : 'Result')
+        .replace(/{responseType}/g, options.responseType ?? '');
+    return indentLines(declaration, indent);
+}
+
+/**
+ * Generates a request record declaration, indented with the given prefix
+ */
+export function generateRequestDeclaration(requestTypeName: string, options: ScaffoldOptions, indent = ''): string {
+    const template = options.responseType ? REQUEST_WITH_RESPONSE_TEMPLATE : REQUEST_TEMPLATE;
+    const parameters = options.properties.map(property => `${property.type} ${property.name}`).join(', ');
+    const declaration = template
+        .replace(/{requestName}/g, requestTypeName)
+        .replace(/{parameters}/g, parameters)
+        .replace(/{responseType}/g, options.responseType ?? '');
+    return indentLines(declaration, indent);
+}
+
+/**
+ * Checks whether a ValidateAsync body using ResultR.Validation will be generated.
+ * Requires the ValidateAsync hook and at least one property with a default rule.
+ */
+function usesValidationRules(options: ScaffoldOptions): boolean {
+    return options.useValidationRules &&
+        options.hooks.includes('ValidateAsync') &&
+        options.properties.some(property => getValidationRule(property.type) !== null);
+}
+
+/**
+ * Generates one RuleFor(...) per property that has a default rule
+ */
+function generateValidationRules(properties: RequestProperty[]): string {
+    return properties
+        .map(property => ({ property, rule: getValidationRule(property.type) }))
+        .filter(({ rule }) => rule !== null)
+        .map(({ property, rule }) => `        .RuleFor(x => x.${property.name})\n            .${rule}`)
+        .join('\n');
+}
+
+/**
+ * Gets the conventional handler name for a request (e.g., "CreateUserRequest" -> "CreateUserHandler")
+ */
+export function getHandlerName(requestTypeName: string): string {
+    const baseName = requestTypeName.endsWith('Request') && requestTypeName.length > 7
+        ? requestTypeName.slice(0, -7)
+        : requestTypeName;
+    return `${baseName}Handler`;
+}
+
+/**
+ * Wraps type declarations in a namespace, preceded by the given using directives
+ */
+export function wrapInNamespace(
+    declarations: string,
+    namespaceName: string,
+    useFileScopedNamespace: boolean,
+    usings: string[]
+): string {
+    const usingLines = usings.map(usingNamespace => `using ${usingNamespace};\n`).join('');
+    const header = usingLines ? `${usingLines}\n` : '';
+
+    if (useFileScopedNamespace) {
+        return `${header}namespace ${namespaceName};\n\n${declarations}\n`;
+    }
+
+    return `${header}namespace ${namespaceName}\n{\n${indentLines(declarations, '    ')}\n}\n`;
+}
+
+/**
+ * Prefixes every non-empty line of the text with the given indentation
+ */
+function indentLines(text: string, indent: string): string {
+    if (!indent) {
+        return text;
+    }
+    return text
+        .split('\n')
+        .map(line => line.length > 0 ? indent + line : line)
+        .join('\n');
+}
+
 /**
  * Detects whether the project uses file-scoped namespaces by examining existing .cs files
  */
-async function detectNamespaceStyle(folderUri: vscode.Uri): Promise<boolean> {
+export async function detectNamespaceStyle(folderUri: vscode.Uri): Promise<boolean> {
     const config = getConfig();
 
     // Check configuration first
@@ -138,42 +617,13 @@ async function detectNamespaceStyle(folderUri: vscode.Uri): Promise<boolean> {
 /**
  * Calculates the namespace for a file based on the project structure
  */
-async function calculateNamespace(folderUri: vscode.Uri): Promise<string> {
+export async function calculateNamespace(folderUri: vscode.Uri): Promise<string> {
     try {
-        // Find the .csproj file to determine the root namespace
-        const workspaceFolder = vscode.workspace.getWorkspaceFolder(folderUri);
-        if (!workspaceFolder) {
-            return 'MyNamespace';
-        }
-
-        // Search for .csproj files
-        const csprojFiles = await vscode.workspace.findFiles(
-            new vscode.RelativePattern(workspaceFolder, '**/*.csproj'),
-            '**/node_modules/**',
-            10
-        );
-
-        // Find the closest .csproj to our target folder
-        let closestProject: { uri: vscode.Uri; rootNamespace: string } | null = null;
-        let closestDistance = Infinity;
-
-        for (const csprojUri of csprojFiles) {
-            const projectDir = vscode.Uri.joinPath(csprojUri, '..');
-            
-            // Check if target folder is within this project
-            if (folderUri.fsPath.startsWith(projectDir.fsPath)) {
-                const distance = folderUri.fsPath.length - projectDir.fsPath.length;
-                if (distance < closestDistance) {
-                    closestDistance = distance;
-                    const rootNamespace = await extractRootNamespace(csprojUri);
-                    closestProject = { uri: projectDir, rootNamespace };
-                }
-            }
-        }
+        const closestProject = await findContainingProject(folderUri);
 
         if (closestProject) {
             // Calculate relative path from project root to target folder
-            const projectPath = closestProject.uri.fsPath;
+            const projectPath = closestProject.projectDir.fsPath;
             const targetPath = folderUri.fsPath;
 
             if (targetPath.startsWith(projectPath)) {
@@ -200,23 +650,57 @@ async function calculateNamespace(folderUri: vscode.Uri): Promise<string> {
     }
 }
 
+/**
+ * Checks whether the project containing the folder references the ResultR.Validation package or project
+ */
+export async function detectValidationSupport(folderUri: vscode.Uri): Promise<boolean> {
+    const project = await findContainingProject(folderUri);
+    if (!project) {
+        return false;
+    }
+
+    const text = await readProjectFile(project.csprojUri);
+    return text !== null &&
+        /<(?:PackageReference|ProjectReference)\s+Include="(?:[^"]*[\\/])?ResultR\.Validation(?:\.csproj)?"/i.test(text);
+}
+
+/**
+ * Finds the .csproj closest to (and containing) the given folder
+ */
+export async function findContainingProject(folderUri: vscode.Uri): Promise<ProjectInfo | null> {
+    const csprojUri = findClosestProject(folderUri, await findProjectFiles());
+    if (!csprojUri) {
+        return null;
+    }
+
+    const rootNamespace = await extractRootNamespace(csprojUri);
+    return { csprojUri, projectDir: vscode.Uri.joinPath(csprojUri, '..'), rootNamespace };
+}
+
 /**
  * Extracts the RootNamespace from a .csproj file
  */
-async function extractRootNamespace(csprojUri: vscode.Uri): Promise<string> {
-    try {
-        const document = await vscode.workspace.openTextDocument(csprojUri);
-        const text = document.getText();
+export async function extractRootNamespace(csprojUri: vscode.Uri): Promise<string> {
+    const text = await readProjectFile(csprojUri);
 
-        // Look for <RootNamespace>...</RootNamespace>
-        const match = text.match(/<RootNamespace>([^<]+)<\/RootNamespace>/);
-        if (match) {
-            return match[1];
-        }
+    // Look for <RootNamespace>...</RootNamespace>
+    const match = text?.match(/<RootNamespace>([^<]+)<\/RootNamespace>/);
+    if (match) {
+        return match[1];
+    }
+
+    // Fallback to project file name (without .csproj extension)
+    return path.basename(csprojUri.fsPath, '.csproj');
+}
 
-        // Fallback to project file name (without .csproj extension)
-        return path.basename(csprojUri.fsPath, '.csproj');
+/**
+ * Reads the contents of a .csproj file, returning null if it cannot be read
+ */
+export async function readProjectFile(csprojUri: vscode.Uri): Promise<string | null> {
+    try {
+        const document = await vscode.workspace.openTextDocument(csprojUri);
+        return document.getText();
     } catch {
-        return path.basename(csprojUri.fsPath, '.csproj');
+        return null;
     }
 }
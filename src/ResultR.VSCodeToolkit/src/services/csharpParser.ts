@@ -1,57 +1,69 @@
 import * as vscode from 'vscode';
-import { CSharpType, getConfig } from '../types';
+import { CSharpType, DeclaredType, HandlerType, PipelineHook, RequestProperty, RequestType, SourceText, TypeReferenceContext } from '../types';
+import { PIPELINE_HOOKS } from './codeGenerator';
+import { findTypeDeclarations, splitTopLevel } from './csharpTokenizer';
+import { findTypeSymbols } from './requestAnalysis';
+import { getReferenceContext, getSimpleTypeName } from './typeResolver';
+import {
+    analyzeTypes,
+    getDeclaredTypesByName,
+    getRequestsForHandler,
+    resolveRequestReference,
+    whenIndexReady
+} from './workspaceIndex';
 
-// Interface names for ResultR types
-const REQUEST_INTERFACES = ['IRequest', 'IRequest<'];
-const HANDLER_INTERFACES = ['IRequestHandler<'];
+// How far before a type name to look for its namespace qualifier (e.g., "MyApp.Users.")
+const MAX_QUALIFIER_LENGTH = 200;
 
-interface TypeDeclaration {
-    typeName: string;
-    baseList: string;
-    startIndex: number;
-    endIndex: number;
+// Declarations of the optional pipeline hooks, including explicit interface implementations
+const PIPELINE_HOOK_PATTERN = /\bValueTask(?:<[^;{}()]*>)?\s+(?:[\w.<>,\s]+\.)?(ValidateAsync|BeforeHandleAsync|AfterHandleAsync)\s*\(/g;
+
+/**
+ * The request type handled at a cursor position and the declarations its name refers to
+ */
+export interface HandledRequestReference {
+    /** The simple name of the handled request type */
+    requestTypeName: string;
+    /** The matching request declarations: several when the name is ambiguous, none when it is not declared in the workspace */
+    requests: RequestType[];
 }
 
 /**
- * Finds the request type name at the cursor position.
+ * Finds the request types the symbol at the cursor position refers to.
  * Works when cursor is on:
  * - A type declaration that implements IRequest/IRequest<T>
  * - A variable declaration like "var myObj = new MyRequest();"
- * - A type name usage like "MyRequest request"
+ * - A type name usage like "MyRequest request" or "new Users.MyRequest()"
+ * Type names are resolved through the file's namespace and using directives; more than one
+ * request type is returned only when the name remains ambiguous.
  */
-export async function findRequestTypeAtCursor(
+export async function findRequestTypesAtCursor(
     document: vscode.TextDocument,
     position: vscode.Position
-): Promise<CSharpType | null> {
+): Promise<RequestType[]> {
     const text = document.getText();
     
     // Get the word at the cursor position
     const wordRange = document.getWordRangeAtPosition(position);
     if (!wordRange) {
-        return null;
+        return [];
     }
     
     const word = document.getText(wordRange);
     
     // First, check if the word itself is a request type declaration in this file
-    const typeDeclarations = findTypeDeclarations(text);
-    for (const decl of typeDeclarations) {
-        if (decl.typeName === word && implementsInterface(decl.baseList, REQUEST_INTERFACES)) {
-            const declPosition = document.positionAt(decl.startIndex);
-            const endPosition = document.positionAt(decl.endIndex);
-            return {
-                typeName: decl.typeName,
-                fileUri: document.uri,
-                position: declPosition,
-                range: new vscode.Range(declPosition, endPosition)
-            };
-        }
+    const localRequest = findRequestsInText(text, document).find(request => request.typeName === word);
+    if (localRequest) {
+        return [localRequest];
     }
     
     // Check if the word is a type name used in the code (e.g., "new MyRequest()" or "MyRequest request")
-    // We need to search the workspace for the type definition
-    const typeInfo = await findRequestTypeInWorkspace(word);
-    if (typeInfo) {
+    // We need to search the workspace for the type definition, including any qualifier before the word
+    const wordStart = document.offsetAt(wordRange.start);
+    const qualifier = text.slice(Math.max(0, wordStart - MAX_QUALIFIER_LENGTH), wordStart).match(/(?:global::)?(?:\w+\s*\.\s*)*$/)?.[0] ?? '';
+    const context = getReferenceContext(text, wordStart);
+    const typeInfo = await findRequestTypesInWorkspace(`${qualifier}${word}`, context);
+    if (typeInfo.length > 0) {
         return typeInfo;
     }
     
@@ -60,13 +72,10 @@ export async function findRequestTypeAtCursor(
     const line = document.lineAt(position.line).text;
     const variableTypeMatch = findVariableType(line, word);
     if (variableTypeMatch) {
-        const typeInfoFromVar = await findRequestTypeInWorkspace(variableTypeMatch);
-        if (typeInfoFromVar) {
-            return typeInfoFromVar;
-        }
+        return findRequestTypesInWorkspace(variableTypeMatch, context);
     }
     
-    return null;
+    return [];
 }
 
 /**
@@ -75,7 +84,7 @@ export async function findRequestTypeAtCursor(
 export async function findHandlerTypeAtCursor(
     document: vscode.TextDocument,
     position: vscode.Position
-): Promise<CSharpType | null> {
+): Promise<HandlerType | null> {
     const text = document.getText();
     
     const wordRange = document.getWordRangeAtPosition(position);
@@ -84,66 +93,142 @@ export async function findHandlerTypeAtCursor(
     }
     
     const word = document.getText(wordRange);
-    const typeDeclarations = findTypeDeclarations(text);
-    
-    for (const decl of typeDeclarations) {
-        if (decl.typeName === word && implementsInterface(decl.baseList, HANDLER_INTERFACES)) {
-            const declPosition = document.positionAt(decl.startIndex);
-            const endPosition = document.positionAt(decl.endIndex);
+    return analyzeTypes(findTypesInText(text, document)).handlers.find(handler => handler.typeName === word) ?? null;
+}
+
+/**
+ * Finds the request type handled at the cursor position.
+ * Works when cursor is on:
+ * - A type declaration that implements IRequestHandler<TRequest>
+ * - A HandleAsync method signature, e.g. "HandleAsync(MyRequest request, ...)"
+ */
+export async function findHandledRequestAtCursor(
+    document: vscode.TextDocument,
+    position: vscode.Position
+): Promise<HandledRequestReference | null> {
+    const handlerType = await findHandlerTypeAtCursor(document, position);
+    if (handlerType) {
+        await whenIndexReady();
+        return { requestTypeName: handlerType.requestTypeName, requests: getRequestsForHandler(handlerType) };
+    }
+
+    // The signature may span several lines, so match against the whole document
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    const handleAsyncPattern = /\bHandleAsync\s*\(\s*((?:global::)?[\w.]+)\s+\w+[^)]*\)/g;
+
+    let match;
+    while ((match = handleAsyncPattern.exec(text)) !== null) {
+        if (offset >= match.index && offset <= match.index + match[0].length) {
             return {
-                typeName: decl.typeName,
-                fileUri: document.uri,
-                position: declPosition,
-                range: new vscode.Range(declPosition, endPosition)
+                requestTypeName: getSimpleTypeName(match[1]),
+                requests: await findRequestTypesInWorkspace(match[1], getReferenceContext(text, match.index))
             };
         }
     }
-    
+
     return null;
 }
 
 /**
- * Finds all type declarations in the given text
+ * Finds all request types (IRequest/IRequest<T> implementations) declared in the given text,
+ * including types that implement IRequest through a base record or interface declared elsewhere
  */
-function findTypeDeclarations(text: string): TypeDeclaration[] {
-    const declarations: TypeDeclaration[] = [];
-    const regex = /\b(class|record|struct)\s+(\w+)(?:<[^>]+>)?\s*(?:\([^)]*\))?\s*(?::\s*([^{]+))?/g;
-    
+export function findRequestsInText(text: string, source: SourceText): RequestType[] {
+    return analyzeTypes(findTypesInText(text, source)).requests;
+}
+
+/**
+ * Finds every class, struct, interface and record declared in the given text, with what is needed to walk its base types
+ */
+export function findTypesInText(text: string, source: SourceText): DeclaredType[] {
+    return findTypeSymbols(text).map(symbol => {
+        const declPosition = source.positionAt(symbol.startIndex);
+        return {
+            ...symbol,
+            fileUri: source.uri,
+            position: declPosition,
+            range: new vscode.Range(declPosition, source.positionAt(symbol.endIndex)),
+            nameRange: new vscode.Range(source.positionAt(symbol.nameStart), source.positionAt(symbol.nameEnd))
+        };
+    });
+}
+
+/**
+ * Extracts the type arguments of every occurrence of a generic interface in a base list.
+ * Nested generics and tuples are kept intact, e.g. "IRequest<Dictionary<string, int>>"
+ * yields [["Dictionary<string, int>"]]. A non-generic occurrence (e.g. "IRequest") yields [].
+ */
+export function extractTypeArguments(baseList: string, interfaceName: string): string[][] {
+    const occurrences: string[][] = [];
+    const pattern = new RegExp(`\\b${escapeRegExp(interfaceName)}\\b\\s*(<)?`, 'g');
+
     let match;
-    while ((match = regex.exec(text)) !== null) {
-        declarations.push({
-            typeName: match[2],
-            baseList: match[3] || '',
-            startIndex: match.index,
-            endIndex: match.index + match[0].length
-        });
+    while ((match = pattern.exec(baseList)) !== null) {
+        if (!match[1]) {
+            occurrences.push([]);
+            continue;
+        }
+
+        const typeArguments: string[] = [];
+        let depth = 0;
+        let current = '';
+        let index = match.index + match[0].length;
+
+        for (; index < baseList.length; index++) {
+            const char = baseList[index];
+            if (char === '<' || char === '(') {
+                depth++;
+            } else if (char === '>' || char === ')') {
+                if (depth === 0) {
+                    break;
+                }
+                depth--;
+            } else if (char === ',' && depth === 0) {
+                typeArguments.push(current.trim());
+                current = '';
+                continue;
+            }
+            current += char;
+        }
+
+        typeArguments.push(current.trim());
+        occurrences.push(typeArguments);
+        pattern.lastIndex = index;
     }
-    
-    return declarations;
+
+    return occurrences;
 }
 
 /**
- * Checks if the base list contains any of the specified interface names
+ * Finds the first namespace declared in the given text (file-scoped or block-scoped)
  */
-function implementsInterface(baseList: string, interfaceNames: string[]): boolean {
-    if (!baseList) {
-        return false;
-    }
-    
-    for (const interfaceName of interfaceNames) {
-        if (interfaceName.endsWith('<')) {
-            if (baseList.includes(interfaceName)) {
-                return true;
-            }
-        } else {
-            const pattern = new RegExp(`\\b${interfaceName}(?:<[^>]+>)?\\b`);
-            if (pattern.test(baseList)) {
-                return true;
-            }
+export function findNamespaceDeclaration(text: string): string | null {
+    const match = text.match(/^\s*namespace\s+([\w.]+)/m);
+    return match ? match[1] : null;
+}
+
+/**
+ * Finds the offset just past the end of the type declaration whose header ends at the given offset:
+ * after the terminating ";" of a positional record, or after the closing brace of a type body
+ */
+export function findDeclarationEnd(text: string, headerEndIndex: number): number {
+    const declaration = findTypeDeclarations(text).find(decl => decl.endIndex === headerEndIndex);
+    return declaration ? declaration.declarationEnd : headerEndIndex;
+}
+
+/**
+ * Finds the pipeline hooks (ValidateAsync, BeforeHandleAsync, AfterHandleAsync) a handler class implements
+ * in the given text, in pipeline order. Hooks inherited from a base class are not included.
+ */
+export function findPipelineHooks(text: string, handlerTypeName: string): PipelineHook[] {
+    const hooks = new Set<string>();
+    for (const declaration of findTypeDeclarations(text).filter(decl => decl.typeName === handlerTypeName)) {
+        for (const match of text.slice(declaration.endIndex, declaration.declarationEnd).matchAll(PIPELINE_HOOK_PATTERN)) {
+            hooks.add(match[1]);
         }
     }
-    
-    return false;
+    return PIPELINE_HOOKS.filter(hook => hooks.has(hook));
 }
 
 /**
@@ -172,48 +257,76 @@ function findVariableType(line: string, variableName: string): string | null {
 }
 
 /**
- * Extracts the request type name from a handler's base list
+ * Finds the parameters of a type's primary constructor or, failing that, its first declared constructor.
+ * Returns an empty list when the type has no constructor with parameters.
  */
-export function extractRequestTypeFromHandler(baseList: string): string | null {
-    const match = baseList.match(/IRequestHandler<\s*(\w+)/);
-    return match ? match[1] : null;
+export function findConstructorParameters(text: string, typeName: string): RequestProperty[] {
+    const primaryConstructor = findTypeDeclarations(text)
+        .find(decl => decl.typeName === typeName && decl.parameters?.trim());
+    const constructorMatch = text.match(
+        new RegExp(`\\b(?:public|internal|protected|private)\\s+${escapeRegExp(typeName)}\\s*\\(([^)]*)\\)`)
+    );
+    const parameters = primaryConstructor?.parameters ?? constructorMatch?.[1];
+
+    if (!parameters?.trim()) {
+        return [];
+    }
+
+    return splitTopLevel(parameters)
+        .map(parameter => parseParameter(parameter))
+        .filter((parameter): parameter is RequestProperty => parameter !== null);
 }
 
 /**
- * Searches the workspace for a request type definition
+ * Finds every type declared in the workspace with the given simple name, once per type even when it is partial
  */
-async function findRequestTypeInWorkspace(typeName: string): Promise<CSharpType | null> {
-    const config = getConfig();
-    
-    const files = await vscode.workspace.findFiles(
-        '**/*.cs',
-        `{${config.search.excludePatterns.join(',')}}`
-    );
-    
-    for (const fileUri of files) {
-        try {
-            const document = await vscode.workspace.openTextDocument(fileUri);
-            const text = document.getText();
-            const typeDeclarations = findTypeDeclarations(text);
-            
-            for (const decl of typeDeclarations) {
-                if (decl.typeName === typeName && implementsInterface(decl.baseList, REQUEST_INTERFACES)) {
-                    const declPosition = document.positionAt(decl.startIndex);
-                    const endPosition = document.positionAt(decl.endIndex);
-                    return {
-                        typeName: decl.typeName,
-                        fileUri: document.uri,
-                        position: declPosition,
-                        range: new vscode.Range(declPosition, endPosition)
-                    };
-                }
-            }
-        } catch {
-            continue;
+export async function findWorkspaceTypesByName(typeName: string): Promise<DeclaredType[]> {
+    await whenIndexReady();
+
+    const types = new Map<string, DeclaredType>();
+    for (const type of getDeclaredTypesByName(typeName)) {
+        if (!types.has(type.fullName)) {
+            types.set(type.fullName, type);
         }
     }
-    
-    return null;
+    return [...types.values()];
+}
+
+/**
+ * Reads the constructor parameters of a declared type from its file (see findConstructorParameters)
+ */
+export async function readConstructorParameters(type: CSharpType): Promise<RequestProperty[]> {
+    const document = await vscode.workspace.openTextDocument(type.fileUri);
+    return findConstructorParameters(document.getText(), type.typeName);
+}
+
+/**
+ * Parses a single parameter declaration (e.g., "[FromBody] string name = \"\"") into its type and name
+ */
+function parseParameter(parameter: string): RequestProperty | null {
+    const declaration = parameter
+        .replace(/^\s*(?:\[[^\]]*\]\s*)*/, '')
+        .replace(/=[\s\S]*$/, '')
+        .replace(/^\s*(?:this|params|ref|in|out|scoped)\s+/, '')
+        .trim();
+
+    const match = declaration.match(/^([\s\S]+?)\s*\b(\w+)$/);
+    if (!match || !match[1].trim()) {
+        return null;
+    }
+    return { type: match[1].trim(), name: match[2] };
+}
+
+/**
+ * Looks up the request type definitions a type name written in the given context refers to in the workspace index
+ */
+export async function findRequestTypesInWorkspace(
+    reference: string,
+    context: TypeReferenceContext
+): Promise<RequestType[]> {
+    await whenIndexReady();
+
+    return resolveRequestReference(reference, context);
 }
 
 /**
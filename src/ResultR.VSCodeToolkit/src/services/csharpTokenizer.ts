@@ -0,0 +1,771 @@
+/**
+ * A lightweight C# tokenizer and type declaration scanner.
+ * It knows just enough C# to skip comments, strings and preprocessor directives and to read
+ * type declaration headers reliably; it does not depend on the VS Code API so it can be unit tested.
+ */
+
+/**
+ * A token of C# source text. Whitespace, comments and preprocessor directives produce no tokens.
+ */
+export interface Token {
+    kind: 'identifier' | 'number' | 'string' | 'char' | 'punctuation';
+    /** The token text; verbatim identifiers (@class) are stored without the "@" */
+    text: string;
+    /** The offset of the first character of the token */
+    start: number;
+    /** The offset just past the last character of the token */
+    end: number;
+}
+
+/**
+ * The kinds of type declarations the scanner recognizes
+ */
+export type TypeKind = 'class' | 'struct' | 'interface' | 'record' | 'record struct';
+
+/**
+ * A type declaration found in C# source text
+ */
+export interface TypeDeclaration {
+    kind: TypeKind;
+    /** The simple name of the type (e.g., "CreateUserHandler") */
+    typeName: string;
+    /** The names of the type's generic type parameters */
+    typeParameters: string[];
+    /** Whether the declaration has the "partial" modifier */
+    isPartial: boolean;
+    /** Whether the declaration has the "abstract" modifier */
+    isAbstract: boolean;
+    /** The constraints of each type parameter from its "where" clause (e.g., { TQuery: ["ICachedQuery", "new()"] }) */
+    constraints: Record<string, string[]>;
+    /** The text between the parentheses of a primary constructor, or null if there is none */
+    parameters: string | null;
+    /** Each base type and interface, with comments removed and whitespace normalized */
+    baseTypes: string[];
+    /** The base types joined with ", " (empty when there are none) */
+    baseList: string;
+    /** The namespace the type is declared in, or null for the global namespace */
+    namespaceName: string | null;
+    /** The types the type is nested in, outermost first and joined with "." (e.g., "CreateUser"), or null for a top-level type */
+    containingTypeName: string | null;
+    /** The offset of the type keyword ("class", "record", ...) */
+    startIndex: number;
+    /** The offset just past the declaration header (the name, primary constructor or base list) */
+    endIndex: number;
+    /** The offsets of the type name */
+    nameStart: number;
+    nameEnd: number;
+    /** The offset just past the terminating ";" or the closing brace of the type body */
+    declarationEnd: number;
+}
+
+/**
+ * A using directive found in C# source text, e.g. "using MyApp.Users;" or "using Users = MyApp.Users;"
+ */
+export interface UsingDirective {
+    /** The alias of "using Alias = Target;", or null for a namespace or static import */
+    alias: string | null;
+    /** The imported namespace, the static type or the aliased name, without "global::" */
+    target: string;
+    /** Whether the directive is a "global using" that applies to every file of the project */
+    isGlobal: boolean;
+    /** Whether the directive is a "using static" that imports the members of a type */
+    isStatic: boolean;
+    /** The namespace the directive is declared in, or null when declared at the top of the file */
+    namespaceName: string | null;
+    /** The offset of the "using" keyword, or of "global" for a global using */
+    startIndex: number;
+    /** The offset just past the terminating ";" */
+    endIndex: number;
+}
+
+/**
+ * A namespace declaration found in C# source text
+ */
+export interface NamespaceDeclaration {
+    /** The full name, including the names of enclosing namespaces */
+    name: string;
+    /** The offset of the first character of the name as written */
+    nameStart: number;
+    /** The offset just past the last character of the name as written */
+    nameEnd: number;
+    /** The offset just past the ";" of a file-scoped namespace or the "{" of a block-scoped one */
+    bodyStart: number;
+    /** The offset of the end of the file or of the namespace's closing "}" */
+    bodyEnd: number;
+}
+
+/**
+ * The type declarations, using directives and namespace bodies found in C# source text
+ */
+interface SourceScan {
+    declarations: TypeDeclaration[];
+    usings: UsingDirective[];
+    /** Every namespace; outer namespaces come before the namespaces they contain */
+    namespaces: NamespaceDeclaration[];
+}
+
+// Keywords that introduce a type declaration
+const TYPE_DECLARATION_KEYWORDS = new Set(['class', 'struct', 'interface', 'record']);
+
+// Modifiers that can precede a type keyword
+const TYPE_MODIFIERS = new Set([
+    'public', 'private', 'protected', 'internal', 'file', 'static', 'sealed', 'abstract',
+    'partial', 'readonly', 'ref', 'unsafe', 'new'
+]);
+
+// Matches the start of a string literal: "...", @"...", $"...", $@"...", @$"...", """...""" and $$"""..."""
+const STRING_START = /(?:\$+@?|@\$*)?"/y;
+
+// The most recently scanned text and its scan, since the index scans each file for requests, handlers and usings
+let lastScannedText: string | undefined;
+let lastScan: SourceScan = { declarations: [], usings: [], namespaces: [] };
+
+/**
+ * Splits C# source text into tokens
+ */
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < text.length) {
+        const char = text[index];
+        const code = text.charCodeAt(index);
+
+        if (code === 32 || (code >= 9 && code <= 13)) {
+            index++;
+        } else if (char === '/' && text[index + 1] === '/') {
+            index = findLineEnd(text, index);
+        } else if (char === '/' && text[index + 1] === '*') {
+            const commentEnd = text.indexOf('*/', index + 2);
+            index = commentEnd === -1 ? text.length : commentEnd + 2;
+        } else if (char === '#' && isAtLineStart(text, index)) {
+            index = findLineEnd(text, index);
+        } else if (isStringStart(text, index)) {
+            const end = skipString(text, index);
+            tokens.push({ kind: 'string', text: text.slice(index, end), start: index, end });
+            index = end;
+        } else if (char === '\'') {
+            const end = skipCharLiteral(text, index);
+            tokens.push({ kind: 'char', text: text.slice(index, end), start: index, end });
+            index = end;
+        } else if (isIdentifierStart(char) || (char === '@' && isIdentifierStart(text[index + 1] ?? ''))) {
+            let end = index + 1;
+            while (end < text.length && isIdentifierPart(text[end])) {
+                end++;
+            }
+            const name = text.slice(char === '@' ? index + 1 : index, end);
+            tokens.push({ kind: 'identifier', text: name, start: index, end });
+            index = end;
+        } else if (code >= 48 && code <= 57) {
+            let end = index + 1;
+            while (end < text.length && (isIdentifierPart(text[end]) || (text[end] === '.' && /\d/.test(text[end + 1] ?? '')))) {
+                end++;
+            }
+            tokens.push({ kind: 'number', text: text.slice(index, end), start: index, end });
+            index = end;
+        } else {
+            tokens.push({ kind: 'punctuation', text: char, start: index, end: index + 1 });
+            index++;
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Blanks out comments, string and char literals and preprocessor directives, keeping line breaks so every
+ * offset is unchanged. Regular expressions run on the result only match code.
+ */
+export function getCodeText(text: string): string {
+    let code = '';
+    let index = 0;
+    for (const token of tokenize(text)) {
+        if (token.kind === 'string' || token.kind === 'char') {
+            continue;
+        }
+        code += text.slice(index, token.start).replace(/[^\r\n]/g, ' ') + text.slice(token.start, token.end);
+        index = token.end;
+    }
+    return code + text.slice(index).replace(/[^\r\n]/g, ' ');
+}
+
+/**
+ * Finds every class, struct, interface and record declared in the text, including nested types
+ */
+export function findTypeDeclarations(text: string): TypeDeclaration[] {
+    return scan(text).declarations;
+}
+
+/**
+ * Finds every using directive in the text, including directives declared inside namespace blocks
+ */
+export function findUsingDirectives(text: string): UsingDirective[] {
+    return scan(text).usings;
+}
+
+/**
+ * Finds every file-scoped and block-scoped namespace declared in the text, outer namespaces first
+ */
+export function findNamespaceDeclarations(text: string): NamespaceDeclaration[] {
+    return scan(text).namespaces;
+}
+
+/**
+ * Finds the full name of the namespace enclosing the given offset, or null for the global namespace
+ */
+export function findNamespaceAt(text: string, offset: number): string | null {
+    let namespaceName: string | null = null;
+    for (const namespace of scan(text).namespaces) {
+        if (offset >= namespace.bodyStart && offset <= namespace.bodyEnd) {
+            namespaceName = namespace.name;
+        }
+    }
+    return namespaceName;
+}
+
+/**
+ * Splits a comma-separated list, ignoring commas nested inside <...>, (...) or [...]
+ */
+export function splitTopLevel(value: string): string[] {
+    const segments: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of value) {
+        if (char === '<' || char === '(' || char === '[') {
+            depth++;
+        } else if (char === '>' || char === ')' || char === ']') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            segments.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+
+    segments.push(current);
+    return segments;
+}
+
+/**
+ * Scans the text for type declarations, using directives and namespaces, reusing the last scan for unchanged text
+ */
+function scan(text: string): SourceScan {
+    if (text === lastScannedText) {
+        return lastScan;
+    }
+
+    const tokens = tokenize(text);
+    const matchingBraces = matchBraces(tokens);
+    const result: SourceScan = { declarations: [], usings: [], namespaces: [] };
+
+    // Block-scoped namespaces enclosing the current token, with the index of their closing brace
+    const blockNamespaces: { name: string; closeIndex: number }[] = [];
+    let fileScopedNamespace: string | null = null;
+
+    // Types enclosing the current token, with the offset just past their declaration
+    const containingTypes: { name: string; end: number }[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        while (blockNamespaces.length > 0 && i > blockNamespaces[blockNamespaces.length - 1].closeIndex) {
+            blockNamespaces.pop();
+        }
+
+        const token = tokens[i];
+        while (containingTypes.length > 0 && token.start >= containingTypes[containingTypes.length - 1].end) {
+            containingTypes.pop();
+        }
+
+        if (token.kind !== 'identifier' || tokens[i - 1]?.text === '.') {
+            continue;
+        }
+
+        const namespaceParts = [fileScopedNamespace, ...blockNamespaces.map(namespace => namespace.name)];
+        const namespaceName = namespaceParts.filter(part => part !== null).join('.') || null;
+
+        if (token.text === 'namespace') {
+            const { name, nextIndex } = readQualifiedName(tokens, i + 1);
+            const fullName = namespaceName && name ? `${namespaceName}.${name}` : name;
+            const nameRange = { nameStart: tokens[i + 1]?.start ?? token.end, nameEnd: tokens[nextIndex - 1].end };
+            if (fullName && tokens[nextIndex]?.text === ';') {
+                fileScopedNamespace = name;
+                result.namespaces.push({ name: fullName, ...nameRange, bodyStart: tokens[nextIndex].end, bodyEnd: text.length });
+            } else if (fullName && name && tokens[nextIndex]?.text === '{') {
+                const closeIndex = matchingBraces.get(nextIndex) ?? tokens.length;
+                blockNamespaces.push({ name, closeIndex });
+                result.namespaces.push({
+                    name: fullName,
+                    ...nameRange,
+                    bodyStart: tokens[nextIndex].end,
+                    bodyEnd: tokens[closeIndex]?.start ?? text.length
+                });
+            }
+            continue;
+        }
+
+        if (token.text === 'using') {
+            const directive = readUsingDirective(tokens, i, namespaceName);
+            if (directive) {
+                result.usings.push(directive);
+            }
+            continue;
+        }
+
+        if (TYPE_DECLARATION_KEYWORDS.has(token.text)) {
+            const containingTypeName = containingTypes.map(type => type.name).join('.') || null;
+            const declaration = readTypeDeclaration(text, tokens, i, matchingBraces, namespaceName, containingTypeName);
+            if (declaration) {
+                result.declarations.push(declaration);
+                containingTypes.push({ name: declaration.typeName, end: declaration.declarationEnd });
+            }
+        }
+    }
+
+    lastScannedText = text;
+    lastScan = result;
+    return result;
+}
+
+/**
+ * Reads the using directive whose "using" keyword is at the given token index, or returns null
+ * if it is a using statement or declaration (e.g., "using var stream = ...;")
+ */
+function readUsingDirective(tokens: Token[], usingIndex: number, namespaceName: string | null): UsingDirective | null {
+    const isGlobal = tokens[usingIndex - 1]?.text === 'global';
+    let index = usingIndex + 1;
+
+    const isStatic = tokens[index]?.text === 'static';
+    if (isStatic) {
+        index++;
+    }
+
+    let alias: string | null = null;
+    if (tokens[index]?.kind === 'identifier' && tokens[index + 1]?.text === '=') {
+        alias = tokens[index].text;
+        index += 2;
+    }
+
+    // The target runs up to the ";", and may be generic when aliased (e.g., "using Map = Dictionary<string, int>;")
+    const targetTokens: Token[] = [];
+    for (; index < tokens.length && tokens[index].text !== ';'; index++) {
+        const token = tokens[index];
+        if (token.kind === 'string' || token.kind === 'char' || token.text === '(' || token.text === '{' || token.text === '}') {
+            return null;
+        }
+        targetTokens.push(token);
+    }
+
+    const target = joinTokens(targetTokens).replace(/^global::/, '');
+    const isName = alias !== null ? target.length > 0 : /^\w+(?:\.\w+)*$/.test(target);
+    if (index >= tokens.length || !isName) {
+        return null;
+    }
+
+    return {
+        alias,
+        target,
+        isGlobal,
+        isStatic,
+        namespaceName,
+        startIndex: tokens[isGlobal ? usingIndex - 1 : usingIndex].start,
+        endIndex: tokens[index].end
+    };
+}
+
+/**
+ * Reads the type declaration whose keyword is at the given token index,
+ * or returns null if the keyword is not part of a declaration (e.g., a "where T : class" constraint)
+ */
+function readTypeDeclaration(
+    text: string,
+    tokens: Token[],
+    keywordIndex: number,
+    matchingBraces: Map<number, number>,
+    namespaceName: string | null,
+    containingTypeName: string | null
+): TypeDeclaration | null {
+    const keyword = tokens[keywordIndex];
+    let kind = keyword.text as TypeKind;
+    let index = keywordIndex + 1;
+
+    if (keyword.text === 'record') {
+        if (tokens[index]?.text === 'struct') {
+            kind = 'record struct';
+            index++;
+        } else if (tokens[index]?.text === 'class') {
+            index++;
+        }
+    } else if (tokens[keywordIndex - 1]?.text === 'record') {
+        return null; // Read as part of "record struct" / "record class"
+    }
+
+    const nameToken = tokens[index];
+    if (!nameToken || nameToken.kind !== 'identifier' || nameToken.text === 'where') {
+        return null;
+    }
+    index++;
+
+    // Generic type parameters, e.g. <TRequest, in TResponse>
+    const typeParameters: string[] = [];
+    if (tokens[index]?.text === '<') {
+        const closeIndex = findClosingToken(tokens, index, '<', '>');
+        for (let i = index + 1; i < closeIndex; i++) {
+            const next = tokens[i + 1]?.text;
+            if (tokens[i].kind === 'identifier' && (next === ',' || next === '>')) {
+                typeParameters.push(tokens[i].text);
+            }
+        }
+        index = closeIndex + 1;
+    }
+
+    // Primary constructor, e.g. (string Name, int Age)
+    let parameters: string | null = null;
+    if (tokens[index]?.text === '(') {
+        const closeIndex = findClosingToken(tokens, index, '(', ')');
+        parameters = text.slice(tokens[index].end, tokens[closeIndex]?.start ?? text.length);
+        index = closeIndex + 1;
+    }
+
+    let headerEnd = tokens[Math.min(index, tokens.length) - 1].end;
+
+    // Base list, which may span several lines
+    let baseTypes: string[] = [];
+    if (tokens[index]?.text === ':') {
+        const baseList = readTypeList(tokens, index + 1);
+        baseTypes = baseList.types;
+        if (baseList.nextIndex > index + 1) {
+            headerEnd = tokens[baseList.nextIndex - 1].end;
+        }
+        index = baseList.nextIndex;
+    }
+
+    // Generic constraints, e.g. where TQuery : ICachedQuery, new() where TResult : class
+    const constraints: Record<string, string[]> = {};
+    while (tokens[index]?.kind === 'identifier' && tokens[index].text === 'where' && tokens[index + 2]?.text === ':') {
+        const constraintList = readTypeList(tokens, index + 3);
+        constraints[tokens[index + 1].text] = constraintList.types;
+        index = constraintList.nextIndex;
+    }
+
+    let declarationEnd = headerEnd;
+    if (tokens[index]?.text === ';') {
+        declarationEnd = tokens[index].end;
+    } else if (tokens[index]?.text === '{') {
+        const closeIndex = matchingBraces.get(index);
+        declarationEnd = closeIndex !== undefined ? tokens[closeIndex].end : text.length;
+    }
+
+    return {
+        kind,
+        typeName: nameToken.text,
+        typeParameters,
+        isPartial: hasModifier(tokens, keywordIndex, 'partial'),
+        isAbstract: hasModifier(tokens, keywordIndex, 'abstract'),
+        constraints,
+        parameters,
+        baseTypes,
+        baseList: baseTypes.join(', '),
+        namespaceName,
+        containingTypeName,
+        startIndex: keyword.start,
+        endIndex: headerEnd,
+        nameStart: nameToken.start,
+        nameEnd: nameToken.end,
+        declarationEnd
+    };
+}
+
+/**
+ * Reads a comma-separated list of types (a base list or the constraints of a type parameter) starting at
+ * the given token index, up to the "{", ";" or "where" that ends it
+ */
+function readTypeList(tokens: Token[], startIndex: number): { types: string[]; nextIndex: number } {
+    const types: string[] = [];
+    let segment: Token[] = [];
+    let depth = 0;
+    let index = startIndex;
+
+    for (; index < tokens.length; index++) {
+        const token = tokens[index];
+        if (depth === 0 && (token.text === '{' || token.text === ';' || (token.kind === 'identifier' && token.text === 'where'))) {
+            break;
+        }
+        if (token.kind === 'punctuation') {
+            if (token.text === '<' || token.text === '(' || token.text === '[') {
+                depth++;
+            } else if (token.text === '>' || token.text === ')' || token.text === ']') {
+                depth--;
+            } else if (token.text === ',' && depth === 0) {
+                types.push(joinTokens(segment));
+                segment = [];
+                continue;
+            }
+        }
+        segment.push(token);
+    }
+
+    if (segment.length > 0) {
+        types.push(joinTokens(segment));
+    }
+    return { types, nextIndex: index };
+}
+
+/**
+ * Checks whether the modifiers before a type keyword include the given one
+ */
+function hasModifier(tokens: Token[], keywordIndex: number, modifier: string): boolean {
+    for (let i = keywordIndex - 1; i >= 0 && tokens[i].kind === 'identifier' && TYPE_MODIFIERS.has(tokens[i].text); i--) {
+        if (tokens[i].text === modifier) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Reads a dotted name (e.g., "MyApp.Features.Users") starting at the given token index
+ */
+function readQualifiedName(tokens: Token[], startIndex: number): { name: string | null; nextIndex: number } {
+    const parts: string[] = [];
+    let index = startIndex;
+    while (tokens[index]?.kind === 'identifier') {
+        parts.push(tokens[index].text);
+        index++;
+        if (tokens[index]?.text !== '.') {
+            break;
+        }
+        index++;
+    }
+    return { name: parts.length > 0 ? parts.join('.') : null, nextIndex: index };
+}
+
+/**
+ * Finds the index of the token closing the bracket at the given index, or the last token if it is never closed
+ */
+function findClosingToken(tokens: Token[], openIndex: number, open: string, close: string): number {
+    let depth = 0;
+    for (let i = openIndex; i < tokens.length; i++) {
+        if (tokens[i].kind !== 'punctuation') {
+            continue;
+        }
+        if (tokens[i].text === open) {
+            depth++;
+        } else if (tokens[i].text === close) {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return tokens.length - 1;
+}
+
+/**
+ * Maps the index of every "{" token to the index of its matching "}"
+ */
+function matchBraces(tokens: Token[]): Map<number, number> {
+    const matches = new Map<number, number>();
+    const openBraces: number[] = [];
+
+    tokens.forEach((token, index) => {
+        if (token.kind !== 'punctuation') {
+            return;
+        }
+        if (token.text === '{') {
+            openBraces.push(index);
+        } else if (token.text === '}') {
+            const openIndex = openBraces.pop();
+            if (openIndex !== undefined) {
+                matches.set(openIndex, index);
+            }
+        }
+    });
+
+    return matches;
+}
+
+/**
+ * Joins tokens back into source text with normalized whitespace (e.g., "IRequestHandler<A, B>")
+ */
+function joinTokens(tokens: Token[]): string {
+    let result = '';
+    let previous: Token | undefined;
+    for (const token of tokens) {
+        const isWord = token.kind !== 'punctuation';
+        const previousIsWord = previous !== undefined && previous.kind !== 'punctuation';
+        if ((isWord && previousIsWord) || previous?.text === ',') {
+            result += ' ';
+        }
+        result += token.text;
+        previous = token;
+    }
+    return result;
+}
+
+/**
+ * Checks whether a string literal starts at the given offset
+ */
+function isStringStart(text: string, index: number): boolean {
+    const char = text[index];
+    if (char !== '"' && char !== '$' && char !== '@') {
+        return false;
+    }
+    STRING_START.lastIndex = index;
+    return STRING_START.test(text);
+}
+
+/**
+ * Returns the offset just past the string literal starting at the given offset
+ */
+function skipString(text: string, index: number): number {
+    let interpolated = false;
+    let verbatim = false;
+    while (text[index] === '$' || text[index] === '@') {
+        if (text[index] === '$') {
+            interpolated = true;
+        } else {
+            verbatim = true;
+        }
+        index++;
+    }
+
+    // Raw string literal: ends at a run of at least as many quotes as it started with
+    let quoteCount = 0;
+    while (text[index + quoteCount] === '"') {
+        quoteCount++;
+    }
+    if (!verbatim && quoteCount >= 3) {
+        index += quoteCount;
+        while (index < text.length) {
+            if (text[index] !== '"') {
+                index++;
+                continue;
+            }
+            let run = 0;
+            while (text[index + run] === '"') {
+                run++;
+            }
+            if (run >= quoteCount) {
+                return index + run;
+            }
+            index += run;
+        }
+        return text.length;
+    }
+
+    index++; // Opening quote
+    while (index < text.length) {
+        const char = text[index];
+        if (verbatim && char === '"') {
+            if (text[index + 1] === '"') {
+                index += 2;
+                continue;
+            }
+            return index + 1;
+        }
+        if (!verbatim) {
+            if (char === '\\') {
+                index += 2;
+                continue;
+            }
+            if (char === '"') {
+                return index + 1;
+            }
+            if (char === '\n') {
+                return index; // Unterminated string
+            }
+        }
+        if (interpolated && char === '{') {
+            if (text[index + 1] === '{') {
+                index += 2;
+                continue;
+            }
+            index = skipInterpolationHole(text, index + 1);
+            continue;
+        }
+        index++;
+    }
+    return text.length;
+}
+
+/**
+ * Returns the offset just past the "}" closing an interpolation hole that starts at the given offset
+ */
+function skipInterpolationHole(text: string, index: number): number {
+    let depth = 0;
+    while (index < text.length) {
+        const char = text[index];
+        if (isStringStart(text, index)) {
+            index = skipString(text, index);
+            continue;
+        }
+        if (char === '\'') {
+            index = skipCharLiteral(text, index);
+            continue;
+        }
+        if (char === '{') {
+            depth++;
+        } else if (char === '}') {
+            if (depth === 0) {
+                return index + 1;
+            }
+            depth--;
+        }
+        index++;
+    }
+    return text.length;
+}
+
+/**
+ * Returns the offset just past the character literal starting at the given offset
+ */
+function skipCharLiteral(text: string, index: number): number {
+    index++; // Opening quote
+    while (index < text.length && text[index] !== '\'' && text[index] !== '\n') {
+        index += text[index] === '\\' ? 2 : 1;
+    }
+    return text[index] === '\'' ? index + 1 : index;
+}
+
+/**
+ * Returns the offset of the end of the line containing the given offset
+ */
+function findLineEnd(text: string, index: number): number {
+    const lineEnd = text.indexOf('\n', index);
+    return lineEnd === -1 ? text.length : lineEnd;
+}
+
+/**
+ * Checks whether only spaces or tabs precede the given offset on its line
+ */
+function isAtLineStart(text: string, index: number): boolean {
+    for (let i = index - 1; i >= 0 && text[i] !== '\n'; i--) {
+        if (text[i] !== ' ' && text[i] !== '\t') {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Checks whether a character can start an identifier
+ */
+function isIdentifierStart(char: string): boolean {
+    const code = char.charCodeAt(0);
+    if (code < 128) {
+        return (code >= 65 && code <= 90) || (code >= 97 && code <= 122) || code === 95;
+    }
+    return /[\p{L}_]/u.test(char);
+}
+
+/**
+ * Checks whether a character can continue an identifier
+ */
+function isIdentifierPart(char: string): boolean {
+    const code = char.charCodeAt(0);
+    if (code < 128) {
+        return (code >= 48 && code <= 57) || (code >= 65 && code <= 90) || (code >= 97 && code <= 122) || code === 95;
+    }
+    return /[\p{L}\p{N}_]/u.test(char);
+}
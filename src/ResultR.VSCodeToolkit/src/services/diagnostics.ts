@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { getConfig } from '../types';
+import { findWiringProblems } from './requestAnalysis';
+import { getAllRequests, getHandlersForRequest, onDidChangeIndex, whenIndexReady } from './workspaceIndex';
+
+// Delay before re-analyzing the workspace after the index changes
+const ANALYSIS_DELAY_MS = 500;
+
+/**
+ * Publishes diagnostics for request/handler wiring problems and keeps them
+ * current as the workspace index changes.
+ */
+export function initializeDiagnostics(context: vscode.ExtensionContext): void {
+    const collection = vscode.languages.createDiagnosticCollection('resultr');
+    let pendingAnalysis: NodeJS.Timeout | undefined;
+
+    const scheduleAnalysis = () => {
+        if (pendingAnalysis) {
+            clearTimeout(pendingAnalysis);
+        }
+        pendingAnalysis = setTimeout(() => {
+            pendingAnalysis = undefined;
+            publishDiagnostics(collection);
+        }, ANALYSIS_DELAY_MS);
+    };
+
+    context.subscriptions.push(
+        collection,
+        onDidChangeIndex(scheduleAnalysis),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('resultr.diagnostics')) {
+                scheduleAnalysis();
+            }
+        }),
+        { dispose: () => clearTimeout(pendingAnalysis) }
+    );
+
+    whenIndexReady().then(() => publishDiagnostics(collection));
+}
+
+/**
+ * Analyzes every indexed request and handler and replaces the published diagnostics
+ */
+function publishDiagnostics(collection: vscode.DiagnosticCollection): void {
+    collection.clear();
+
+    if (!getConfig().diagnostics.enabled) {
+        return;
+    }
+
+    const diagnosticsByFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+    const addDiagnostic = (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => {
+        const key = uri.toString();
+        let entry = diagnosticsByFile.get(key);
+        if (!entry) {
+            entry = { uri, diagnostics: [] };
+            diagnosticsByFile.set(key, entry);
+        }
+        entry.diagnostics.push(diagnostic);
+    };
+
+    for (const problem of findWiringProblems(getAllRequests(), getHandlersForRequest)) {
+        const severity = problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+        for (const location of problem.locations) {
+            addDiagnostic(location.fileUri, createDiagnostic(location.range, problem.message, severity, problem.code));
+        }
+    }
+
+    for (const { uri, diagnostics } of diagnosticsByFile.values()) {
+        collection.set(uri, diagnostics);
+    }
+}
+
+/**
+ * Creates a diagnostic attributed to ResultR
+ */
+function createDiagnostic(
+    range: vscode.Range,
+    message: string,
+    severity: vscode.DiagnosticSeverity,
+    code: string
+): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(range, message, severity);
+    diagnostic.source = 'ResultR';
+    diagnostic.code = code;
+    return diagnostic;
+}
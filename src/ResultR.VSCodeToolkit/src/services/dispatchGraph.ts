@@ -0,0 +1,251 @@
+/**
+ * Models the graph of which handlers dispatch which requests, finds dispatch cycles and fan-out hotspots
+ * and lays the graph out in columns for the dispatch graph view.
+ * It does not depend on the VS Code API so it can be unit tested.
+ */
+
+/**
+ * A request or handler in the dispatch graph
+ */
+export interface GraphNode {
+    /** The full name of the request or handler type */
+    id: string;
+    kind: 'request' | 'handler';
+    /** The simple name of the type */
+    label: string;
+    /** The types of the services injected through a handler's constructor; empty for requests */
+    dependencies: string[];
+}
+
+/**
+ * A link from a request to a handler that handles it, or from a handler to a request it dispatches
+ */
+export interface GraphEdge {
+    from: string;
+    to: string;
+    kind: 'handles' | 'dispatches';
+}
+
+/**
+ * The requests and handlers of the workspace and how they are linked
+ */
+export interface DispatchGraph {
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+}
+
+/**
+ * A node placed in the layout, with its top-left corner and size
+ */
+export interface NodeLayout {
+    node: GraphNode;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * The position of every node, with the edges that point back to an earlier column because they close a cycle
+ */
+export interface GraphLayout {
+    width: number;
+    height: number;
+    nodes: NodeLayout[];
+    edges: { edge: GraphEdge; isBackEdge: boolean }[];
+}
+
+// Size of the nodes and the space around them
+const NODE_WIDTH = 220;
+const NODE_HEADER_HEIGHT = 40;
+const DEPENDENCY_LINE_HEIGHT = 16;
+const COLUMN_GAP = 90;
+const ROW_GAP = 24;
+const MARGIN = 20;
+
+/**
+ * Finds the dispatch cycles: sets of requests and handlers where each handler eventually dispatches a request
+ * that leads back to itself. Each cycle lists its node ids sorted by label.
+ */
+export function findDispatchCycles(graph: DispatchGraph): string[][] {
+    const outgoing = groupEdgesBySource(graph);
+    const labels = new Map(graph.nodes.map(node => [node.id, node.label]));
+    const cycles: string[][] = [];
+
+    // Tarjan's strongly connected components
+    const indexes = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+
+    const visit = (id: string) => {
+        indexes.set(id, indexes.size);
+        lowLinks.set(id, indexes.get(id) as number);
+        stack.push(id);
+        onStack.add(id);
+
+        for (const edge of outgoing.get(id) ?? []) {
+            if (!indexes.has(edge.to)) {
+                visit(edge.to);
+                lowLinks.set(id, Math.min(lowLinks.get(id) as number, lowLinks.get(edge.to) as number));
+            } else if (onStack.has(edge.to)) {
+                lowLinks.set(id, Math.min(lowLinks.get(id) as number, indexes.get(edge.to) as number));
+            }
+        }
+
+        if (lowLinks.get(id) === indexes.get(id)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop() as string;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== id);
+
+            if (component.length > 1) {
+                cycles.push(component.sort((a, b) => (labels.get(a) ?? a).localeCompare(labels.get(b) ?? b)));
+            }
+        }
+    };
+
+    for (const node of graph.nodes) {
+        if (!indexes.has(node.id)) {
+            visit(node.id);
+        }
+    }
+
+    return cycles;
+}
+
+/**
+ * Finds the handlers that dispatch at least the given number of distinct requests, with how many they dispatch
+ */
+export function findFanOutHotspots(graph: DispatchGraph, threshold: number): Map<string, number> {
+    const dispatched = new Map<string, Set<string>>();
+    for (const edge of graph.edges.filter(edge => edge.kind === 'dispatches')) {
+        const requests = dispatched.get(edge.from) ?? new Set<string>();
+        requests.add(edge.to);
+        dispatched.set(edge.from, requests);
+    }
+
+    return new Map([...dispatched]
+        .filter(([, requests]) => requests.size >= threshold)
+        .map(([handlerId, requests]) => [handlerId, requests.size]));
+}
+
+/**
+ * Keeps only the requests and handlers connected, through any number of links, to a handler that dispatches a request
+ */
+export function filterDispatchChains(graph: DispatchGraph): DispatchGraph {
+    const neighbors = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+        neighbors.set(edge.from, [...neighbors.get(edge.from) ?? [], edge.to]);
+        neighbors.set(edge.to, [...neighbors.get(edge.to) ?? [], edge.from]);
+    }
+
+    const kept = new Set<string>();
+    const pending = graph.edges.filter(edge => edge.kind === 'dispatches').map(edge => edge.from);
+    while (pending.length > 0) {
+        const id = pending.pop() as string;
+        if (!kept.has(id)) {
+            kept.add(id);
+            pending.push(...neighbors.get(id) ?? []);
+        }
+    }
+
+    return {
+        nodes: graph.nodes.filter(node => kept.has(node.id)),
+        edges: graph.edges.filter(edge => kept.has(edge.from))
+    };
+}
+
+/**
+ * Lays the graph out from left to right: each node is placed one column after the furthest node linking to it,
+ * ignoring the links that close a cycle, and nodes in a column are ordered by where the nodes linking to them are
+ */
+export function layoutDispatchGraph(graph: DispatchGraph): GraphLayout {
+    const outgoing = groupEdgesBySource(graph);
+    const nodes = [...graph.nodes].sort((a, b) => a.label.localeCompare(b.label));
+    const hasIncoming = new Set(graph.edges.map(edge => edge.to));
+
+    // A depth-first search from the nodes nothing links to finds the back edges; the finish order reversed is a topological order
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const backEdges = new Set<GraphEdge>();
+    const finishOrder: string[] = [];
+    const visit = (id: string) => {
+        visiting.add(id);
+        for (const edge of outgoing.get(id) ?? []) {
+            if (visiting.has(edge.to)) {
+                backEdges.add(edge);
+            } else if (!visited.has(edge.to)) {
+                visit(edge.to);
+            }
+        }
+        visiting.delete(id);
+        visited.add(id);
+        finishOrder.push(id);
+    };
+    for (const node of [...nodes.filter(node => !hasIncoming.has(node.id)), ...nodes]) {
+        if (!visited.has(node.id)) {
+            visit(node.id);
+        }
+    }
+
+    const columns = new Map<string, number>(nodes.map(node => [node.id, 0]));
+    for (const id of finishOrder.reverse()) {
+        for (const edge of outgoing.get(id) ?? []) {
+            if (!backEdges.has(edge)) {
+                columns.set(edge.to, Math.max(columns.get(edge.to) as number, (columns.get(id) as number) + 1));
+            }
+        }
+    }
+
+    const incoming = new Map<string, string[]>();
+    for (const edge of graph.edges.filter(edge => !backEdges.has(edge))) {
+        incoming.set(edge.to, [...incoming.get(edge.to) ?? [], edge.from]);
+    }
+
+    const columnCount = Math.max(0, ...columns.values()) + 1;
+    const rows = new Map<string, number>();
+    const layouts: NodeLayout[] = [];
+    let height = 0;
+
+    for (let column = 0; column < columnCount; column++) {
+        const averageRow = (node: GraphNode) => {
+            const sources = (incoming.get(node.id) ?? []).filter(id => rows.has(id));
+            return sources.length > 0 ? sources.reduce((sum, id) => sum + (rows.get(id) as number), 0) / sources.length : Infinity;
+        };
+        const columnNodes = nodes
+            .filter(node => columns.get(node.id) === column)
+            .map(node => ({ node, averageRow: averageRow(node) }))
+            .sort((a, b) => a.averageRow - b.averageRow || a.node.label.localeCompare(b.node.label));
+
+        let y = MARGIN;
+        columnNodes.forEach(({ node }, row) => {
+            const nodeHeight = NODE_HEADER_HEIGHT + node.dependencies.length * DEPENDENCY_LINE_HEIGHT;
+            rows.set(node.id, row);
+            layouts.push({ node, x: MARGIN + column * (NODE_WIDTH + COLUMN_GAP), y, width: NODE_WIDTH, height: nodeHeight });
+            y += nodeHeight + ROW_GAP;
+        });
+        height = Math.max(height, y - ROW_GAP + MARGIN);
+    }
+
+    return {
+        width: graph.nodes.length > 0 ? 2 * MARGIN + columnCount * NODE_WIDTH + (columnCount - 1) * COLUMN_GAP : 0,
+        height: graph.nodes.length > 0 ? height : 0,
+        nodes: layouts,
+        edges: graph.edges.map(edge => ({ edge, isBackEdge: backEdges.has(edge) }))
+    };
+}
+
+/**
+ * Groups the edges of the graph by the node they start at
+ */
+function groupEdgesBySource(graph: DispatchGraph): Map<string, GraphEdge[]> {
+    const outgoing = new Map<string, GraphEdge[]>();
+    for (const edge of graph.edges) {
+        outgoing.set(edge.from, [...outgoing.get(edge.from) ?? [], edge]);
+    }
+    return outgoing;
+}
@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import { DispatchSite, RequestType, SourceText } from '../types';
+import { findTypeDeclarations, getCodeText } from './csharpTokenizer';
+import { getReferenceContext, getSimpleTypeName } from './typeResolver';
+import { getDispatchesForRequest, whenIndexReady } from './workspaceIndex';
+
+// Words that can precede a variable name without being its type
+const NON_TYPE_KEYWORDS = new Set([
+    'return', 'await', 'new', 'in', 'out', 'ref', 'is', 'as', 'yield', 'throw', 'case', 'else'
+]);
+
+/**
+ * Finds all places in the workspace that dispatch the given request type,
+ * or any request type with the given simple name when it is not declared in the workspace
+ */
+export async function findDispatchesForRequest(request: RequestType | string): Promise<DispatchSite[]> {
+    await whenIndexReady();
+
+    return getDispatchesForRequest(request);
+}
+
+/**
+ * Finds all Dispatch(...) calls in the given text whose request type can be determined.
+ * Handles patterns like:
+ * - _dispatcher.Dispatch(new MyRequest(...)) or _dispatcher.Dispatch(new Users.MyRequest(...))
+ * - _dispatcher.Dispatch(request) where request is declared in the same member
+ * Calls inside comments and strings are ignored.
+ */
+export function findDispatchesInText(text: string, source: SourceText): DispatchSite[] {
+    const dispatches: DispatchSite[] = [];
+    const code = getCodeText(text);
+
+    // Capture groups: 1=type name after "new", 2=variable name
+    const dispatchPattern = /\.(Dispatch)\s*(?:<[^>]*>)?\s*\(\s*(?:new\s+((?:global::)?\w+(?:\s*\.\s*\w+)*)|(\w+)\s*[,)])/g;
+
+    let match;
+    while ((match = dispatchPattern.exec(code)) !== null) {
+        const requestTypeReference = match[2] ?? resolveVariableType(code, match[3], findEnclosingMemberStart(text, code, match.index), match.index);
+        if (!requestTypeReference) {
+            continue;
+        }
+
+        // The range covers "Dispatch" through the request argument
+        const startIndex = match.index + 1;
+        const argument = match[2] ?? match[3];
+        const endIndex = code.indexOf(argument, startIndex + match[1].length) + argument.length;
+
+        const startPosition = source.positionAt(startIndex);
+        const endPosition = source.positionAt(endIndex);
+
+        dispatches.push({
+            requestTypeName: getSimpleTypeName(requestTypeReference),
+            requestTypeReference,
+            referenceContext: getReferenceContext(text, match.index),
+            fileUri: source.uri,
+            position: startPosition,
+            range: new vscode.Range(startPosition, endPosition)
+        });
+    }
+
+    return dispatches;
+}
+
+/**
+ * Finds where the member (method, constructor, property, ...) enclosing the given offset starts, including its
+ * signature, within the innermost type declaration. Outside any type (top-level statements) it is the start of the file.
+ */
+function findEnclosingMemberStart(text: string, code: string, offset: number): number {
+    let memberStart = 0;
+
+    // Declarations are in source order, so the last one enclosing the offset is the innermost
+    for (const declaration of findTypeDeclarations(text)) {
+        const bodyStart = code.indexOf('{', declaration.endIndex);
+        if (bodyStart === -1 || bodyStart >= offset || offset >= declaration.declarationEnd) {
+            continue;
+        }
+
+        // Members end with a ";" or a "}" closing their body at the top level of the type body
+        memberStart = bodyStart + 1;
+        let depth = 0;
+        for (let index = bodyStart + 1; index < offset; index++) {
+            if (code[index] === '{') {
+                depth++;
+            } else if (code[index] === '}') {
+                depth--;
+            }
+            if (depth === 0 && (code[index] === ';' || code[index] === '}')) {
+                memberStart = index + 1;
+            }
+        }
+    }
+
+    return memberStart;
+}
+
+/**
+ * Tries to find the declared type of a variable from the closest declaration between the start of the
+ * enclosing member and the given index. Handles patterns like:
+ * - var request = new MyRequest(...);
+ * - MyRequest request = ...;
+ * - HandleAsync(MyRequest request, ...)
+ */
+function resolveVariableType(code: string, variableName: string, memberStart: number, beforeIndex: number): string | null {
+    const name = escapeRegExp(variableName);
+    const declarationPattern = new RegExp(
+        `\\bvar\\s+${name}\\s*=\\s*new\\s+([\\w.:]+)|\\b(\\w+)\\??\\s+${name}\\s*[=;,)]`,
+        'g'
+    );
+
+    let typeName: string | null = null;
+    let match;
+    declarationPattern.lastIndex = memberStart;
+    while ((match = declarationPattern.exec(code)) !== null && match.index < beforeIndex) {
+        const candidate = match[1] ?? match[2];
+        if (candidate === 'var') {
+            // Declared with "var" but not initialized with "new", so the type is unknown
+            typeName = null;
+        } else if (!NON_TYPE_KEYWORDS.has(candidate)) {
+            typeName = candidate;
+        }
+    }
+
+    return typeName;
+}
+
+/**
+ * Escapes special regex characters
+ */
+function escapeRegExp(string: string): string {
+    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
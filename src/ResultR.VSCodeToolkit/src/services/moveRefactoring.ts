@@ -0,0 +1,255 @@
+import * as vscode from 'vscode';
+import { HandlerType, getConfig } from '../types';
+import { calculateNamespace } from './codeGenerator';
+import { UsingDirective, findNamespaceDeclarations, findUsingDirectives } from './csharpTokenizer';
+import { openDocumentIfMentioned } from './renameRefactoring';
+import { findTypeReferences, getSimpleTypeName } from './typeResolver';
+import {
+    getAllHandlers,
+    getAllRequests,
+    getDeclaredTypeNames,
+    getDeclaredTypesInFile,
+    getGlobalUsingsContext,
+    getIndexedFileUris,
+    getRequestsForHandler,
+    isNamespaceDeclared,
+    whenIndexReady
+} from './workspaceIndex';
+
+/**
+ * A file being moved, with its old and new location
+ */
+export interface FileMove {
+    oldUri: vscode.Uri;
+    newUri: vscode.Uri;
+}
+
+/**
+ * A moved file that declares requests or handlers and changes namespace
+ */
+interface MovedFile extends FileMove {
+    handlers: HandlerType[];
+    oldNamespace: string;
+    newNamespace: string;
+}
+
+// Moves whose namespace fix-up is already part of the edit that moves them
+const movesWithFixup = new Set<string>();
+
+/**
+ * Updates the namespaces of request and handler files moved or renamed in the Explorer, along with
+ * the using directives of the files that reference them, unless the setting turns this off
+ */
+export function initializeMoveRefactoring(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.workspace.onWillRenameFiles(event => {
+            const moves = event.files
+                .map(file => ({ oldUri: file.oldUri, newUri: file.newUri }))
+                .filter(move => !movesWithFixup.has(move.oldUri.toString()));
+            if (moves.length > 0 && getConfig().refactoring.updateNamespacesOnMove) {
+                event.waitUntil(createMoveEdit(moves));
+            }
+        })
+    );
+}
+
+/**
+ * Moves files and updates their namespaces and the using directives that refer to them in a single edit
+ */
+export async function moveFiles(moves: FileMove[]): Promise<boolean> {
+    const edit = await createMoveEdit(moves);
+    for (const { oldUri, newUri } of moves) {
+        edit.renameFile(oldUri, newUri);
+    }
+
+    const keys = moves.map(move => move.oldUri.toString());
+    keys.forEach(key => movesWithFixup.add(key));
+    try {
+        return await vscode.workspace.applyEdit(edit);
+    } finally {
+        keys.forEach(key => movesWithFixup.delete(key));
+    }
+}
+
+/**
+ * Builds the edit that goes with moving files or folders: each moved request or handler file gets the
+ * namespace calculated for its new folder, and files that reference any type declared in a moved file (handlers,
+ * dispatch sites, validators, tests, registrations and so on) get a using directive for its new namespace.
+ * A "using" of the old namespace is updated instead when nothing is left in it.
+ * Edits refer to the files at their old location, since they are applied before the move.
+ */
+export async function createMoveEdit(moves: FileMove[]): Promise<vscode.WorkspaceEdit> {
+    await whenIndexReady();
+
+    const edit = new vscode.WorkspaceEdit();
+    const movedFiles: MovedFile[] = [];
+
+    for (const move of expandFolderMoves(moves)) {
+        const key = move.oldUri.toString();
+        const requests = getAllRequests().filter(request => request.fileUri.toString() === key);
+        const handlers = getAllHandlers().filter(handler => handler.fileUri.toString() === key);
+        if (requests.length === 0 && handlers.length === 0) {
+            continue;
+        }
+
+        // Only the outermost namespace is rewritten; nested namespaces are relative to it
+        const document = await vscode.workspace.openTextDocument(move.oldUri);
+        const [namespace] = findNamespaceDeclarations(document.getText());
+        const newNamespace = await calculateNamespace(vscode.Uri.joinPath(move.newUri, '..'));
+        if (!namespace || namespace.name === newNamespace) {
+            continue;
+        }
+
+        edit.replace(
+            move.oldUri,
+            new vscode.Range(document.positionAt(namespace.nameStart), document.positionAt(namespace.nameEnd)),
+            newNamespace
+        );
+        movedFiles.push({ ...move, handlers, oldNamespace: namespace.name, newNamespace });
+    }
+
+    const movedKeys = new Set(movedFiles.map(file => file.oldUri.toString()));
+    const requiredUsings = new Map<string, { uri: vscode.Uri; namespaceName: string | null; usings: Map<string, string> }>();
+    const requireUsing = (uri: vscode.Uri, namespaceName: string, replacedNamespace: string) => {
+        const key = uri.toString();
+        const moved = movedFiles.find(file => file.oldUri.toString() === key);
+        let entry = requiredUsings.get(key);
+        if (!entry) {
+            entry = { uri, namespaceName: moved ? moved.newNamespace : null, usings: new Map() };
+            requiredUsings.set(key, entry);
+        }
+        entry.usings.set(namespaceName, replacedNamespace);
+    };
+
+    // Every file that references a type declared in a moved file needs that type's new namespace
+    const movedTypes = new Map<string, { moved: MovedFile; namespaceName: string }>();
+    for (const moved of movedFiles) {
+        for (const type of getDeclaredTypesInFile(moved.oldUri)) {
+            if (type.namespaceName === moved.oldNamespace || type.namespaceName?.startsWith(`${moved.oldNamespace}.`)) {
+                movedTypes.set(type.fullName, { moved, namespaceName: type.namespaceName });
+            }
+        }
+    }
+
+    const movedTypeNames = [...movedTypes.keys()];
+    const simpleNames = [...new Set(movedTypeNames.map(getSimpleTypeName))];
+    const knownTypeNames = getDeclaredTypeNames();
+    const globalUsingsContext = getGlobalUsingsContext();
+    for (const uri of movedTypeNames.length > 0 ? getIndexedFileUris() : []) {
+        const document = await openDocumentIfMentioned(uri, simpleNames);
+        if (!document) {
+            continue;
+        }
+
+        for (const reference of findTypeReferences(document.getText(), movedTypeNames, knownTypeNames, globalUsingsContext)) {
+            const { moved, namespaceName } = movedTypes.get(reference.fullName) as { moved: MovedFile; namespaceName: string };
+            if (moved.oldUri.toString() !== uri.toString()) {
+                const newNamespaceName = `${moved.newNamespace}${namespaceName.slice(moved.oldNamespace.length)}`;
+                requireUsing(uri, newNamespaceName, namespaceName);
+            }
+        }
+    }
+
+    for (const moved of movedFiles) {
+        for (const handler of moved.handlers) {
+            for (const request of handler.requestConstraints ? [] : getRequestsForHandler(handler)) {
+                if (request.namespaceName && !movedKeys.has(request.fileUri.toString())) {
+                    requireUsing(moved.oldUri, request.namespaceName, request.namespaceName);
+                }
+            }
+        }
+
+        // The moved file may still use other types from its old namespace
+        if (isNamespaceDeclared(moved.oldNamespace, movedKeys)) {
+            requireUsing(moved.oldUri, moved.oldNamespace, moved.oldNamespace);
+        }
+    }
+
+    for (const { uri, namespaceName, usings } of requiredUsings.values()) {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const documentNamespace = namespaceName ?? findNamespaceDeclarations(document.getText())[0]?.name ?? null;
+        addUsingDirectives(edit, document, documentNamespace, usings, movedKeys);
+    }
+
+    return edit;
+}
+
+/**
+ * Replaces folder moves with a move for every indexed request and handler file inside the folder
+ */
+function expandFolderMoves(moves: FileMove[]): FileMove[] {
+    const fileUris = new Map<string, vscode.Uri>();
+    for (const type of [...getAllRequests(), ...getAllHandlers()]) {
+        fileUris.set(type.fileUri.toString(), type.fileUri);
+    }
+
+    return moves.flatMap(move => {
+        const oldKey = move.oldUri.toString();
+        if (fileUris.has(oldKey)) {
+            return [move];
+        }
+
+        // Anything else is treated as a folder; files that aren't in it are not affected
+        const folderPrefix = `${move.oldUri.path.replace(/\/$/, '')}/`;
+        return [...fileUris.values()]
+            .filter(uri => uri.scheme === move.oldUri.scheme && uri.path.startsWith(folderPrefix))
+            .map(uri => ({
+                oldUri: uri,
+                newUri: vscode.Uri.joinPath(move.newUri, ...uri.path.slice(folderPrefix.length).split('/'))
+            }));
+    });
+}
+
+/**
+ * Adds a using directive for each required namespace the document doesn't already import or sit in.
+ * Each namespace is keyed to the namespace whose directive it may replace.
+ */
+function addUsingDirectives(
+    edit: vscode.WorkspaceEdit,
+    document: vscode.TextDocument,
+    documentNamespace: string | null,
+    usings: Map<string, string>,
+    movedFiles: Set<string>
+): void {
+    const directives = findUsingDirectives(document.getText())
+        .filter(directive => !directive.isGlobal && !directive.isStatic && directive.alias === null);
+    const imported = new Set(directives.map(directive => directive.target));
+    const fileDirectives = directives.filter(directive => directive.namespaceName === null);
+    const replacements = new Map<UsingDirective, string[]>();
+    const added: string[] = [];
+
+    for (const [namespaceName, replacedNamespace] of usings) {
+        const isEnclosing = documentNamespace !== null
+            && (documentNamespace === namespaceName || documentNamespace.startsWith(`${namespaceName}.`));
+        if (isEnclosing || imported.has(namespaceName)) {
+            continue;
+        }
+        imported.add(namespaceName);
+
+        // A using of a namespace the move leaves empty is updated rather than left behind
+        const replaced = replacedNamespace !== namespaceName && !isNamespaceDeclared(replacedNamespace, movedFiles)
+            ? fileDirectives.find(directive => directive.target === replacedNamespace && !replacements.has(directive))
+            : undefined;
+        if (replaced) {
+            replacements.set(replaced, [`using ${namespaceName};`]);
+        } else {
+            added.push(`using ${namespaceName};`);
+        }
+    }
+
+    // New directives go after the last file-level directive, or at the top of the file
+    const lastDirective = fileDirectives[fileDirectives.length - 1];
+    const lastReplacement = lastDirective ? replacements.get(lastDirective) : undefined;
+    if (lastReplacement) {
+        lastReplacement.push(...added);
+    } else if (lastDirective && added.length > 0) {
+        edit.insert(document.uri, document.positionAt(lastDirective.endIndex), added.map(line => `\n${line}`).join(''));
+    } else if (added.length > 0) {
+        edit.insert(document.uri, new vscode.Position(0, 0), `${added.join('\n')}\n\n`);
+    }
+
+    for (const [directive, lines] of replacements) {
+        const range = new vscode.Range(document.positionAt(directive.startIndex), document.positionAt(directive.endIndex));
+        edit.replace(document.uri, range, lines.join('\n'));
+    }
+}
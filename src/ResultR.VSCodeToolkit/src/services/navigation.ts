@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { SourceLocation } from '../types';
+import { CSharpType, SourceLocation } from '../types';
 
 /**
  * Navigates to the specified source location
@@ -14,3 +14,24 @@ export async function navigateToLocation(location: SourceLocation): Promise<void
     // Reveal the location in the editor
     editor.revealRange(location.range, vscode.TextEditorRevealType.InCenter);
 }
+
+/**
+ * Asks the user to choose between types that share a name, showing each type's namespace and file.
+ * Returns the only type without asking when there is just one, or undefined when the user cancels.
+ */
+export async function pickType<T extends CSharpType>(types: T[], placeHolder: string): Promise<T | undefined> {
+    if (types.length <= 1) {
+        return types[0];
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        types.map(type => ({
+            label: type.typeName,
+            description: type.namespaceName ?? '(global namespace)',
+            detail: vscode.workspace.asRelativePath(type.fileUri),
+            type
+        })),
+        { placeHolder, matchOnDescription: true, matchOnDetail: true }
+    );
+    return selected?.type;
+}
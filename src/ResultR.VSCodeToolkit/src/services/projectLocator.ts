@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getConfig } from '../types';
+
+/**
+ * Finds every project file in the searched part of the workspace, deepest folders first
+ */
+export async function findProjectFiles(): Promise<vscode.Uri[]> {
+    const config = getConfig();
+    const projectFiles = await vscode.workspace.findFiles(
+        '**/*.csproj',
+        `{${config.search.excludePatterns.join(',')}}`
+    );
+    return projectFiles.sort((a, b) => b.path.length - a.path.length);
+}
+
+/**
+ * Finds the project whose folder is or contains the file or folder, preferring the most deeply nested one.
+ * Expects the project files in the order returned by findProjectFiles.
+ */
+export function findClosestProject(fileUri: vscode.Uri, projectFiles: vscode.Uri[]): vscode.Uri | null {
+    return projectFiles.find(csprojUri => {
+        const projectDir = path.posix.dirname(csprojUri.path);
+        return fileUri.path === projectDir || fileUri.path.startsWith(`${projectDir}/`);
+    }) ?? null;
+}
+
+/**
+ * Gets the display name of a project (the project file name without ".csproj")
+ */
+export function getProjectName(csprojUri: vscode.Uri): string {
+    return path.basename(csprojUri.fsPath, '.csproj');
+}
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+
+// The built-in extension that owns the References view
+const REFERENCES_VIEW_EXTENSION_ID = 'vscode.references-view';
+
+/**
+ * The parts of the References view API (the exports of the built-in references-view extension) used here
+ */
+interface SymbolTree {
+    setInput(input: SymbolTreeInput<unknown>): void;
+}
+
+interface SymbolTreeInput<T> {
+    readonly contextValue: string;
+    readonly title: string;
+    readonly location: vscode.Location;
+    resolve(): vscode.ProviderResult<SymbolTreeModel<T>>;
+    with(location: vscode.Location): SymbolTreeInput<T>;
+}
+
+interface SymbolTreeModel<T> {
+    message: string | undefined;
+    provider: vscode.TreeDataProvider<T>;
+}
+
+/**
+ * Shows locations in the References view, grouped by file like the results of Find All References.
+ * Falls back to the references peek at the origin when the built-in references-view extension is disabled.
+ */
+export async function showLocationsInReferencesView(
+    title: string,
+    origin: vscode.Location,
+    locations: vscode.Location[]
+): Promise<void> {
+    const extension = vscode.extensions.getExtension<SymbolTree>(REFERENCES_VIEW_EXTENSION_ID);
+    if (!extension) {
+        await vscode.commands.executeCommand('editor.action.showReferences', origin.uri, origin.range.start, locations);
+        return;
+    }
+
+    const symbolTree = await extension.activate();
+    symbolTree.setInput(new LocationsInput(title, origin, locations));
+}
+
+/**
+ * A fixed set of locations as input for the References view
+ */
+class LocationsInput implements SymbolTreeInput<vscode.Uri | vscode.Location> {
+    readonly contextValue = 'resultrLocations';
+
+    constructor(
+        readonly title: string,
+        readonly location: vscode.Location,
+        private readonly locations: vscode.Location[]
+    ) {}
+
+    resolve(): SymbolTreeModel<vscode.Uri | vscode.Location> {
+        const fileCount = new Set(this.locations.map(location => location.uri.toString())).size;
+        const resultText = this.locations.length === 1 ? '1 result' : `${this.locations.length} results`;
+        const fileText = fileCount === 1 ? '1 file' : `${fileCount} files`;
+        return {
+            message: `${resultText} in ${fileText}`,
+            provider: new LocationsTreeDataProvider(this.locations)
+        };
+    }
+
+    with(location: vscode.Location): LocationsInput {
+        return new LocationsInput(this.title, location, this.locations);
+    }
+}
+
+/**
+ * Lists each file with the locations in it, showing the line of each location
+ */
+class LocationsTreeDataProvider implements vscode.TreeDataProvider<vscode.Uri | vscode.Location> {
+    private readonly locationsByFile = new Map<string, { uri: vscode.Uri; locations: vscode.Location[] }>();
+
+    constructor(locations: vscode.Location[]) {
+        for (const location of locations) {
+            const key = location.uri.toString();
+            const file = this.locationsByFile.get(key) ?? { uri: location.uri, locations: [] };
+            file.locations.push(location);
+            this.locationsByFile.set(key, file);
+        }
+    }
+
+    getChildren(element?: vscode.Uri | vscode.Location): (vscode.Uri | vscode.Location)[] {
+        if (!element) {
+            return [...this.locationsByFile.values()].map(file => file.uri);
+        }
+        if (element instanceof vscode.Location) {
+            return [];
+        }
+        return this.locationsByFile.get(element.toString())?.locations ?? [];
+    }
+
+    async getTreeItem(element: vscode.Uri | vscode.Location): Promise<vscode.TreeItem> {
+        if (!(element instanceof vscode.Location)) {
+            const item = new vscode.TreeItem(element, vscode.TreeItemCollapsibleState.Expanded);
+            item.description = true;
+            return item;
+        }
+
+        const document = await vscode.workspace.openTextDocument(element.uri);
+        const line = document.lineAt(element.range.start.line);
+        const indent = line.firstNonWhitespaceCharacterIndex;
+        const start = element.range.start.character - indent;
+        const end = element.range.isSingleLine ? element.range.end.character - indent : line.text.length - indent;
+
+        const item = new vscode.TreeItem({ label: line.text.trim(), highlights: [[start, end]] });
+        item.tooltip = vscode.workspace.asRelativePath(element.uri);
+        item.command = {
+            command: 'vscode.open',
+            title: 'Open Location',
+            arguments: [element.uri, { selection: element.range }]
+        };
+        return item;
+    }
+}
@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RequestType } from '../types';
+import { getHandlerName } from './codeGenerator';
+import { findTypeReferences, getSimpleTypeName } from './typeResolver';
+import {
+    getDeclaredTypeNames,
+    getGlobalUsingsContext,
+    getHandlersForRequest,
+    getIndexedFileUris,
+    whenIndexReady
+} from './workspaceIndex';
+
+/**
+ * Builds a single edit that renames a request and its handler(s) together: every reference to the request
+ * in the workspace (declaration, IRequestHandler type arguments, dispatch sites, validators, tests,
+ * using directives, nameof(...) and so on), each conventionally named handler class (e.g., "CreateUserHandler")
+ * and its references, and the files named after them. Only names that resolve to the renamed types are changed.
+ * Every change needs confirmation, so applying the edit shows the refactor preview.
+ */
+export async function createRequestRenameEdit(request: RequestType, newRequestName: string): Promise<vscode.WorkspaceEdit> {
+    await whenIndexReady();
+
+    const oldRequestName = request.typeName;
+
+    // The full names of the types to rename and their new simple names
+    const newNames = new Map([[request.fullName ?? oldRequestName, newRequestName]]);
+
+    // Files are renamed when named after the request, its handler or, for a single-file layout, the feature
+    const fileNames = new Map([
+        [oldRequestName, newRequestName],
+        [getFeatureName(oldRequestName), getFeatureName(newRequestName)]
+    ]);
+
+    // Open generic handlers name a type parameter rather than the request
+    const handlers = getHandlersForRequest(request).filter(handler => !handler.requestConstraints);
+    for (const handler of handlers) {
+        if (handler.typeName === getHandlerName(oldRequestName)) {
+            newNames.set(handler.fullName ?? handler.typeName, getHandlerName(newRequestName));
+            fileNames.set(handler.typeName, getHandlerName(newRequestName));
+        }
+    }
+
+    const declarationFiles = new Set([request.fileUri, ...handlers.map(handler => handler.fileUri)].map(uri => uri.toString()));
+    const simpleNames = [...newNames.keys()].map(getSimpleTypeName);
+    const knownTypeNames = getDeclaredTypeNames();
+    const globalUsingsContext = getGlobalUsingsContext();
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const uri of getIndexedFileUris()) {
+        const document = await openDocumentIfMentioned(uri, simpleNames);
+        if (!document) {
+            continue;
+        }
+
+        const label = declarationFiles.has(uri.toString()) ? 'Rename request and handler' : 'Update references';
+        for (const reference of findTypeReferences(document.getText(), [...newNames.keys()], knownTypeNames, globalUsingsContext)) {
+            const range = new vscode.Range(document.positionAt(reference.start), document.positionAt(reference.end));
+            edit.replace(uri, range, newNames.get(reference.fullName) as string, { label, needsConfirmation: true });
+        }
+    }
+
+    const seenFiles = new Set<string>();
+    for (const uri of [request.fileUri, ...handlers.map(handler => handler.fileUri)]) {
+        const newFileName = fileNames.get(path.basename(uri.fsPath, '.cs'));
+        if (seenFiles.has(uri.toString()) || !newFileName) {
+            continue;
+        }
+        seenFiles.add(uri.toString());
+        edit.renameFile(uri, vscode.Uri.joinPath(uri, '..', `${newFileName}.cs`), undefined, {
+            label: 'Rename files',
+            needsConfirmation: true
+        });
+    }
+
+    return edit;
+}
+
+/**
+ * Opens a file when its text mentions any of the names. Files that are not open are checked on disk first,
+ * so only the files that may need changes are loaded as documents.
+ */
+export async function openDocumentIfMentioned(uri: vscode.Uri, names: string[]): Promise<vscode.TextDocument | undefined> {
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    let text: string;
+    try {
+        text = openDocument ? openDocument.getText() : new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    } catch {
+        return undefined;
+    }
+
+    if (!names.some(name => text.includes(name))) {
+        return undefined;
+    }
+    return openDocument ?? await vscode.workspace.openTextDocument(uri);
+}
+
+/**
+ * Gets the feature name a request is named after (e.g., "CreateUserRequest" -> "CreateUser"),
+ * which single-file scaffolding uses as the file name
+ */
+function getFeatureName(requestTypeName: string): string {
+    return getHandlerName(requestTypeName).slice(0, -'Handler'.length);
+}
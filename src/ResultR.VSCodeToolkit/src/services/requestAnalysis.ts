@@ -0,0 +1,390 @@
+/**
+ * Finds the requests and handlers declared in C# source text, matches handlers to the requests they handle
+ * and reports wiring problems. This is the analysis shared by the extension and the command line analyzer,
+ * so it does not depend on the VS Code API; locations are given as text offsets.
+ */
+import { TypeReferenceContext, TypeSymbol, TypeSymbolDeclaration } from '../types';
+import { UsingDirective, findTypeDeclarations, findUsingDirectives } from './csharpTokenizer';
+import { createPositionFinder } from './textPositions';
+import {
+    RequestDescription,
+    TypeHierarchy,
+    createTypeHierarchy,
+    describeHandler,
+    describeRequest,
+    satisfiesConstraints
+} from './typeHierarchy';
+import {
+    createReferenceContext,
+    getFullName,
+    getReferenceContext,
+    getSimpleTypeName,
+    mergeReferenceContexts,
+    normalizeTypeName,
+    resolveTypeReference
+} from './typeResolver';
+
+/**
+ * Diagnostic codes reported for request/handler wiring problems
+ */
+export const DiagnosticCodes = {
+    missingHandler: 'ResultR1001',
+    duplicateHandler: 'ResultR1002',
+    responseTypeMismatch: 'ResultR1003'
+} as const;
+
+/**
+ * The parts of a request type needed to match it to handlers
+ */
+export interface RequestInfo {
+    typeName: string;
+    fullName?: string;
+    /** The T in IRequest<T>, or null for a void IRequest */
+    responseType: string | null;
+}
+
+/**
+ * The parts of a handler needed to match it to requests
+ */
+export interface HandlerInfo {
+    typeName: string;
+    /** The simple name of the request type, or the type parameter of an open generic handler */
+    requestTypeName: string;
+    /** The request type as written in IRequestHandler<...> */
+    requestTypeReference: string;
+    /** The namespace and using directives used to resolve the request type */
+    referenceContext: TypeReferenceContext;
+    /** The constraints on the request type parameter of an open generic handler, otherwise null */
+    requestConstraints: string[] | null;
+    /** The TResponse in IRequestHandler<TRequest, TResponse>, or null for IRequestHandler<TRequest> */
+    responseType: string | null;
+}
+
+/**
+ * A request found among the declared types, with the declaration it is reported at
+ */
+export interface AnalyzedRequest<T extends TypeSymbol> extends RequestInfo {
+    fullName: string;
+    namespaceName: string | null;
+    declaration: T;
+}
+
+/**
+ * A handler found among the declared types, with the declaration it is reported at.
+ * A class implementing IRequestHandler for several requests yields one handler per request type.
+ */
+export interface AnalyzedHandler<T extends TypeSymbol> extends HandlerInfo {
+    fullName: string;
+    namespaceName: string | null;
+    declaration: T;
+}
+
+/**
+ * The requests and handlers found by walking the base types of a set of declared types
+ */
+export interface TypeAnalysis<T extends TypeSymbol> {
+    hierarchy: TypeHierarchy<T>;
+    requests: AnalyzedRequest<T>[];
+    handlers: AnalyzedHandler<T>[];
+    /** What each request implements, keyed by its full name */
+    requestDescriptions: Map<string, RequestDescription>;
+}
+
+/**
+ * Matches handlers to the requests they handle
+ */
+export interface RequestMatcher<R extends RequestInfo, H extends HandlerInfo> {
+    /** Resolves a request type name, falling back to every request with the same simple name when it can't be resolved */
+    resolveRequestReference(reference: string, context: TypeReferenceContext): R[];
+    /** Gets the requests a handler handles; every request satisfying the constraints for an open generic handler */
+    getRequestsForHandler(handler: H): R[];
+    /** Gets every handler that implements IRequestHandler for the request */
+    getHandlersForRequest(request: R): H[];
+}
+
+/**
+ * A request/handler wiring problem, reported at one or more requests or handlers
+ */
+export interface WiringProblem<L> {
+    code: typeof DiagnosticCodes[keyof typeof DiagnosticCodes];
+    severity: 'warning' | 'error';
+    message: string;
+    locations: L[];
+}
+
+/**
+ * A C# source file to analyze
+ */
+export interface SourceFile {
+    /** The path of the file, as it should be reported */
+    path: string;
+    text: string;
+}
+
+/**
+ * A type declared in a source file, with the 1-based line and column where its name starts and ends
+ */
+export interface SourceTypeDeclaration extends TypeSymbolDeclaration {
+    filePath: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+}
+
+/**
+ * The requests, handlers and wiring problems found in a set of source files
+ */
+export interface SourceAnalysis {
+    requests: AnalyzedRequest<SourceTypeDeclaration>[];
+    handlers: AnalyzedHandler<SourceTypeDeclaration>[];
+    problems: WiringProblem<AnalyzedRequest<SourceTypeDeclaration> | AnalyzedHandler<SourceTypeDeclaration>>[];
+}
+
+/**
+ * Finds the requests and handlers declared in the given source files and the wiring problems between them
+ */
+export function analyzeSourceFiles(files: SourceFile[]): SourceAnalysis {
+    const symbols = files.flatMap(file => {
+        const positionAt = createPositionFinder(file.text);
+        return findTypeSymbols(file.text).map(symbol => {
+            // Reports use 1-based lines and columns
+            const start = positionAt(symbol.nameStart);
+            const end = positionAt(symbol.nameEnd);
+            return {
+                ...symbol,
+                filePath: file.path,
+                line: start.line + 1,
+                column: start.character + 1,
+                endLine: end.line + 1,
+                endColumn: end.character + 1
+            };
+        });
+    });
+    const globalUsings = files.flatMap(file => findUsingDirectives(file.text).filter(directive => directive.isGlobal));
+
+    const analysis = analyzeTypeSymbols(symbols, globalUsings);
+    const matcher = createRequestMatcher(analysis.requests, analysis.handlers, analysis, globalUsings);
+    return {
+        requests: analysis.requests,
+        handlers: analysis.handlers,
+        problems: findWiringProblems(analysis.requests, request => matcher.getHandlersForRequest(request))
+    };
+}
+
+/**
+ * Finds every class, struct, interface and record declared in the given text, with what is needed to walk its base types
+ */
+export function findTypeSymbols(text: string): TypeSymbolDeclaration[] {
+    return findTypeDeclarations(text).map(decl => ({
+        kind: decl.kind,
+        typeName: decl.typeName,
+        fullName: getFullName(decl.namespaceName, decl.typeName, decl.containingTypeName),
+        namespaceName: decl.namespaceName,
+        typeParameters: decl.typeParameters,
+        constraints: decl.constraints,
+        baseTypes: decl.baseTypes,
+        isAbstract: decl.isAbstract,
+        isPartial: decl.isPartial,
+        referenceContext: getReferenceContext(text, decl.startIndex),
+        startIndex: decl.startIndex,
+        endIndex: decl.endIndex,
+        nameStart: decl.nameStart,
+        nameEnd: decl.nameEnd,
+        declarationLength: decl.declarationEnd - decl.startIndex
+    }));
+}
+
+/**
+ * Walks the base types of every declared type to find the requests and handlers among them,
+ * with the workspace's global using directives applying to every type
+ */
+export function analyzeTypeSymbols<T extends TypeSymbolDeclaration>(symbols: T[], globalUsings: UsingDirective[] = []): TypeAnalysis<T> {
+    const hierarchy = createTypeHierarchy(symbols, globalUsings);
+    const groups = hierarchy.types.map(parts => ({ parts, location: pickMainDeclaration(parts) }));
+    return { hierarchy, ...describeTypes(groups, hierarchy) };
+}
+
+/**
+ * Finds the requests and handlers among types, each given with all of its declarations and the declaration to report it at.
+ * Base types and the other parts of partial types are looked up in the hierarchy.
+ */
+export function describeTypes<T extends TypeSymbolDeclaration>(
+    groups: { parts: T[]; location: T }[],
+    hierarchy: TypeHierarchy<T>
+): Omit<TypeAnalysis<T>, 'hierarchy'> {
+    const requests: AnalyzedRequest<T>[] = [];
+    const handlers: AnalyzedHandler<T>[] = [];
+    const requestDescriptions = new Map<string, RequestDescription>();
+
+    for (const { parts, location } of groups) {
+        const request = describeRequest(parts, hierarchy);
+        if (request) {
+            requests.push({
+                typeName: location.typeName,
+                fullName: location.fullName,
+                namespaceName: location.namespaceName,
+                responseType: request.responseType,
+                declaration: location
+            });
+            requestDescriptions.set(location.fullName, request);
+        }
+
+        for (const handled of describeHandler(parts, hierarchy)) {
+            handlers.push({
+                typeName: location.typeName,
+                fullName: location.fullName,
+                namespaceName: location.namespaceName,
+                requestTypeName: handled.constraints ? handled.request.reference : getSimpleTypeName(handled.request.reference),
+                requestTypeReference: handled.request.reference,
+                referenceContext: handled.request.context,
+                requestConstraints: handled.constraints,
+                responseType: handled.responseType,
+                declaration: location
+            });
+        }
+    }
+
+    return { requests, handlers, requestDescriptions };
+}
+
+/**
+ * Picks the declaration of a partial type to report it at: the largest one, which usually holds the implementation
+ */
+export function pickMainDeclaration<T extends TypeSymbolDeclaration>(parts: T[]): T {
+    return parts.reduce((main, part) => part.declarationLength > main.declarationLength ? part : main);
+}
+
+/**
+ * Creates a matcher between requests and handlers. Request type names are resolved through the context they
+ * were written in plus the workspace's global using directives; open generic handlers match every request
+ * satisfying their constraints.
+ */
+export function createRequestMatcher<R extends RequestInfo, H extends HandlerInfo>(
+    requests: R[],
+    handlers: H[],
+    analysis: Pick<TypeAnalysis<TypeSymbol>, 'hierarchy' | 'requestDescriptions'>,
+    globalUsings: UsingDirective[]
+): RequestMatcher<R, H> {
+    const requestsByName = new Map<string, R[]>();
+    for (const request of requests) {
+        const candidates = requestsByName.get(request.typeName) ?? [];
+        candidates.push(request);
+        requestsByName.set(request.typeName, candidates);
+    }
+    const globalUsingsContext = createReferenceContext(null, globalUsings);
+
+    const resolveRequestReference = (reference: string, context: TypeReferenceContext): R[] => {
+        const candidates = requestsByName.get(getSimpleTypeName(reference)) ?? [];
+        if (candidates.length <= 1) {
+            return candidates;
+        }
+
+        // A name that can't be resolved may be imported through implicit usings the analysis does not know about
+        const resolved = resolveTypeReference(reference, mergeReferenceContexts(context, globalUsingsContext), candidates);
+        return resolved.length > 0 ? resolved : candidates;
+    };
+
+    const handles = (handler: H, request: R): boolean => {
+        if (handler.requestConstraints) {
+            const description = analysis.requestDescriptions.get(request.fullName ?? request.typeName);
+            return description !== undefined
+                && satisfiesConstraints(description, handler.requestConstraints, handler.referenceContext, analysis.hierarchy);
+        }
+        return handler.requestTypeName === request.typeName
+            && resolveRequestReference(handler.requestTypeReference, handler.referenceContext)
+                .some(candidate => candidate.fullName === request.fullName);
+    };
+
+    return {
+        resolveRequestReference,
+        getRequestsForHandler: handler => handler.requestConstraints
+            ? requests.filter(request => handles(handler, request))
+            : resolveRequestReference(handler.requestTypeReference, handler.referenceContext),
+        getHandlersForRequest: request => handlers.filter(handler => handles(handler, request))
+    };
+}
+
+/**
+ * Drops open generic handlers from a request's handlers when a handler for the specific request type exists.
+ * This is a tooling heuristic, not runtime behavior: ResultR only registers closed handler interfaces and the
+ * last registration wins, so an open generic handler is most likely a fallback the specific handler replaces.
+ */
+export function preferSpecificHandlers<H extends HandlerInfo>(handlers: H[]): H[] {
+    const specificHandlers = handlers.filter(handler => !handler.requestConstraints);
+    return specificHandlers.length > 0 ? specificHandlers : handlers;
+}
+
+/**
+ * Finds requests without a handler, requests with more than one handler, and handlers whose
+ * response type differs from their request's IRequest<T>
+ */
+export function findWiringProblems<R extends RequestInfo, H extends HandlerInfo>(
+    requests: R[],
+    getHandlersForRequest: (request: R) => H[]
+): WiringProblem<R | H>[] {
+    const problems: WiringProblem<R | H>[] = [];
+
+    for (const request of requests) {
+        const handlers = preferSpecificHandlers(getHandlersForRequest(request));
+
+        if (handlers.length === 0) {
+            problems.push({
+                code: DiagnosticCodes.missingHandler,
+                severity: 'warning',
+                message: `No IRequestHandler found for '${request.typeName}'. Dispatching it will fail at runtime.`,
+                locations: [request]
+            });
+            continue;
+        }
+
+        if (handlers.length > 1) {
+            const handlerNames = handlers.map(handler => handler.typeName).join(', ');
+            problems.push({
+                code: DiagnosticCodes.duplicateHandler,
+                severity: 'warning',
+                message: `'${request.typeName}' has ${handlers.length} handlers (${handlerNames}). Only the last registered handler is used at runtime.`,
+                locations: [request, ...handlers]
+            });
+        }
+
+        for (const handler of handlers) {
+            const mismatch = describeResponseTypeMismatch(request, handler);
+            if (mismatch) {
+                problems.push({
+                    code: DiagnosticCodes.responseTypeMismatch,
+                    severity: 'error',
+                    message: mismatch,
+                    locations: [handler]
+                });
+            }
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Describes how a handler's response type differs from its request's IRequest<T>,
+ * or returns null when they match
+ */
+function describeResponseTypeMismatch(request: RequestInfo, handler: HandlerInfo): string | null {
+    // The response type of an open generic handler is usually a type parameter as well
+    if (handler.requestConstraints || (request.responseType === null && handler.responseType === null)) {
+        return null;
+    }
+
+    if (request.responseType === null) {
+        return `'${handler.typeName}' returns '${handler.responseType}' but '${request.typeName}' is a void IRequest. Use IRequestHandler<${request.typeName}>.`;
+    }
+
+    if (handler.responseType === null) {
+        return `'${handler.typeName}' does not return a value but '${request.typeName}' is IRequest<${request.responseType}>. Use IRequestHandler<${request.typeName}, ${request.responseType}>.`;
+    }
+
+    if (normalizeTypeName(request.responseType) !== normalizeTypeName(handler.responseType)) {
+        return `'${handler.typeName}' returns '${handler.responseType}' but '${request.typeName}' is IRequest<${request.responseType}>.`;
+    }
+
+    return null;
+}
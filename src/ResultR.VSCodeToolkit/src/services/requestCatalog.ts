@@ -0,0 +1,174 @@
+/**
+ * Formats a catalog of the workspace's requests and handlers as Markdown, JSON or a Mermaid diagram.
+ * It does not depend on the VS Code API so it can be unit tested.
+ */
+
+/**
+ * The formats a request catalog can be exported as
+ */
+export type CatalogFormat = 'markdown' | 'json' | 'mermaid';
+
+/**
+ * A request listed in the catalog
+ */
+export interface RequestCatalogEntry {
+    /** The simple name of the request type */
+    typeName: string;
+    /** The namespace the request is declared in, or null for the global namespace */
+    namespaceName: string | null;
+    /** The name of the project containing the request, or null if it isn't in a project */
+    projectName: string | null;
+    /** The T in IRequest<T>, or null for a void IRequest */
+    responseType: string | null;
+    /** The workspace-relative path of the file declaring the request */
+    filePath: string;
+    /** The 1-based line of the declaration */
+    line: number;
+    handlers: HandlerCatalogEntry[];
+}
+
+/**
+ * A handler of a request listed in the catalog
+ */
+export interface HandlerCatalogEntry {
+    /** The simple name of the handler class */
+    typeName: string;
+    /** The namespace the handler is declared in, or null for the global namespace */
+    namespaceName: string | null;
+    /** The pipeline hooks the handler implements, in pipeline order */
+    hooks: string[];
+    /** The workspace-relative path of the file declaring the handler */
+    filePath: string;
+    /** The 1-based line of the declaration */
+    line: number;
+}
+
+// Heading used for requests declared outside any namespace
+const GLOBAL_NAMESPACE_LABEL = '(global namespace)';
+
+/**
+ * Formats the catalog in the given format, with requests grouped by namespace and sorted by name
+ */
+export function formatRequestCatalog(entries: RequestCatalogEntry[], format: CatalogFormat): string {
+    const groups = groupByNamespace(entries);
+    switch (format) {
+        case 'markdown':
+            return formatMarkdown(groups);
+        case 'json':
+            return formatJson(groups);
+        case 'mermaid':
+            return formatMermaid(groups);
+    }
+}
+
+/**
+ * Groups requests by namespace, with namespaces and the requests in each sorted by name
+ */
+function groupByNamespace(entries: RequestCatalogEntry[]): [string | null, RequestCatalogEntry[]][] {
+    const groups = new Map<string | null, RequestCatalogEntry[]>();
+    for (const entry of entries) {
+        const group = groups.get(entry.namespaceName) ?? [];
+        group.push(entry);
+        groups.set(entry.namespaceName, group);
+    }
+
+    return [...groups.entries()]
+        .sort(([a], [b]) => (a ?? '').localeCompare(b ?? ''))
+        .map(([namespaceName, group]) => [namespaceName, [...group].sort((a, b) => a.typeName.localeCompare(b.typeName))]);
+}
+
+/**
+ * Formats the catalog as a Markdown document with a table of requests per namespace
+ */
+function formatMarkdown(groups: [string | null, RequestCatalogEntry[]][]): string {
+    const lines = ['# Request Catalog', ''];
+    const requestCount = groups.reduce((count, [, entries]) => count + entries.length, 0);
+    lines.push(`${requestCount} ${requestCount === 1 ? 'request' : 'requests'} in ${groups.length} ${groups.length === 1 ? 'namespace' : 'namespaces'}.`);
+
+    for (const [namespaceName, entries] of groups) {
+        lines.push('', `## ${namespaceName ?? GLOBAL_NAMESPACE_LABEL}`, '');
+        lines.push('| Request | Response | Project | Handler | Hooks | Location |');
+        lines.push('|---|---|---|---|---|---|');
+
+        for (const entry of entries) {
+            const response = entry.responseType ? `\`IRequest<${escapeTableCell(entry.responseType)}>\`` : '`IRequest` (void)';
+            const locations = [entry, ...entry.handlers].map(type => `\`${type.filePath}:${type.line}\``);
+            const cells = [
+                `\`${entry.typeName}\``,
+                response,
+                entry.projectName ?? '',
+                entry.handlers.length > 0 ? entry.handlers.map(handler => `\`${handler.typeName}\``).join('<br>') : '⚠ none',
+                entry.handlers.map(handler => handler.hooks.join(', ') || '—').join('<br>'),
+                locations.join('<br>')
+            ];
+            lines.push(`| ${cells.join(' | ')} |`);
+        }
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Formats the catalog as JSON with the requests of each namespace
+ */
+function formatJson(groups: [string | null, RequestCatalogEntry[]][]): string {
+    const namespaces = groups.map(([namespaceName, entries]) => ({
+        namespace: namespaceName,
+        requests: entries.map(entry => ({
+            name: entry.typeName,
+            project: entry.projectName,
+            responseType: entry.responseType,
+            file: entry.filePath,
+            line: entry.line,
+            handlers: entry.handlers.map(handler => ({
+                name: handler.typeName,
+                namespace: handler.namespaceName,
+                hooks: handler.hooks,
+                file: handler.filePath,
+                line: handler.line
+            }))
+        }))
+    }));
+    return `${JSON.stringify({ namespaces }, null, 2)}\n`;
+}
+
+/**
+ * Formats the catalog as a Mermaid flowchart with a subgraph per namespace and an edge from each request to its handlers
+ */
+function formatMermaid(groups: [string | null, RequestCatalogEntry[]][]): string {
+    const lines = ['flowchart LR'];
+    const edges: string[] = [];
+
+    groups.forEach(([namespaceName, entries], groupIndex) => {
+        lines.push(`    subgraph ns${groupIndex}["${escapeMermaid(namespaceName ?? GLOBAL_NAMESPACE_LABEL)}"]`);
+        entries.forEach((entry, entryIndex) => {
+            const requestId = `r${groupIndex}_${entryIndex}`;
+            const signature = entry.responseType ? `IRequest<${entry.responseType}>` : 'IRequest';
+            lines.push(`        ${requestId}(["${escapeMermaid(entry.typeName)}<br/>${escapeMermaid(signature)}"])`);
+
+            entry.handlers.forEach((handler, handlerIndex) => {
+                const handlerId = `${requestId}_h${handlerIndex}`;
+                const hooks = handler.hooks.length > 0 ? `<br/>${escapeMermaid(handler.hooks.join(', '))}` : '';
+                lines.push(`        ${handlerId}["${escapeMermaid(handler.typeName)}${hooks}"]`);
+                edges.push(`    ${requestId} --> ${handlerId}`);
+            });
+        });
+        lines.push('    end');
+    });
+
+    return `${[...lines, ...edges].join('\n')}\n`;
+}
+
+/**
+ * Escapes the characters that would break out of a Markdown table cell
+ */
+function escapeTableCell(value: string): string {
+    return value.replace(/\|/g, '\\|');
+}
+
+/**
+ * Escapes the characters Mermaid treats specially inside a quoted label
+ */
+function escapeMermaid(value: string): string {
+    return value.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
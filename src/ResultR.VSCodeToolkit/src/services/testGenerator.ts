@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { HandlerType, RequestProperty, TestFramework } from '../types';
+import { findConstructorParameters, findNamespaceDeclaration } from './csharpParser';
+import {
+    ProjectInfo,
+    calculateNamespace,
+    detectNamespaceStyle,
+    extractRootNamespace,
+    readProjectFile,
+    wrapInNamespace,
+    writeNewFiles
+} from './codeGenerator';
+import { getRequestsForHandler, whenIndexReady } from './workspaceIndex';
+import { findProjectFiles } from './projectLocator';
+
+// Template for a test class exercising a handler's HandleAsync
+const HANDLER_TEST_TEMPLATE = `{classAttribute}public class {handlerName}Tests
+{
+    {methodAttribute}
+    public async Task HandleAsync_WithValidRequest_ReturnsSuccessResult()
+    {
+        // Arrange
+        var handler = new {handlerName}({handlerArguments});
+        var request = new {requestName}({requestArguments});
+
+        // Act
+        var result = await handler.HandleAsync(request, CancellationToken.None);
+
+        // Assert
+        {assertSuccess}
+    }
+}`;
+
+// How each test framework spells the pieces of a test
+const TEST_FRAMEWORK_SYNTAX: Record<TestFramework, {
+    namespace: string;
+    classAttribute: string | null;
+    methodAttribute: string;
+    assertSuccess: string;
+}> = {
+    xUnit: {
+        namespace: 'Xunit',
+        classAttribute: null,
+        methodAttribute: '[Fact]',
+        assertSuccess: 'Assert.True(result.IsSuccess);'
+    },
+    NUnit: {
+        namespace: 'NUnit.Framework',
+        classAttribute: '[TestFixture]',
+        methodAttribute: '[Test]',
+        assertSuccess: 'Assert.That(result.IsSuccess, Is.True);'
+    },
+    MSTest: {
+        namespace: 'Microsoft.VisualStudio.TestTools.UnitTesting',
+        classAttribute: '[TestClass]',
+        methodAttribute: '[TestMethod]',
+        assertSuccess: 'Assert.IsTrue(result.IsSuccess);'
+    }
+};
+
+// The name suffix that identifies test projects
+const TEST_PROJECT_SUFFIX = '.Tests';
+
+// Package references that identify each test framework
+const TEST_FRAMEWORK_PACKAGES: [RegExp, TestFramework][] = [
+    [/<PackageReference\s+Include="xunit(?:\.v3)?"/i, 'xUnit'],
+    [/<PackageReference\s+Include="NUnit"/i, 'NUnit'],
+    [/<PackageReference\s+Include="MSTest(?:\.TestFramework)?"/i, 'MSTest']
+];
+
+// Sample argument values used to construct the request under test
+const SAMPLE_VALUES: Record<string, string> = {
+    string: '"test"', String: '"test"',
+    bool: 'true', Boolean: 'true',
+    int: '1', long: '1', short: '1', byte: '1', decimal: '1m', double: '1d', float: '1f',
+    Int32: '1', Int64: '1', Int16: '1', Byte: '1', Decimal: '1m', Double: '1d', Single: '1f',
+    Guid: 'Guid.NewGuid()',
+    DateTime: 'DateTime.UtcNow',
+    DateTimeOffset: 'DateTimeOffset.UtcNow'
+};
+
+/**
+ * Finds the test projects (projects whose name ends in ".Tests") that reference the given project
+ * through a ProjectReference. Projects named "{Project}.Tests" are listed first.
+ */
+export async function findTestProjects(project: ProjectInfo): Promise<ProjectInfo[]> {
+    const csprojFiles = await findProjectFiles();
+    const projectPath = project.csprojUri.fsPath.toLowerCase();
+    const testProjects: ProjectInfo[] = [];
+
+    for (const csprojUri of csprojFiles) {
+        if (csprojUri.fsPath.toLowerCase() === projectPath || !path.basename(csprojUri.fsPath, '.csproj').endsWith(TEST_PROJECT_SUFFIX)) {
+            continue;
+        }
+
+        const text = await readProjectFile(csprojUri);
+        if (!text) {
+            continue;
+        }
+
+        const projectDir = vscode.Uri.joinPath(csprojUri, '..');
+        const referencesProject = [...text.matchAll(/<ProjectReference\s+Include="([^"]+)"/gi)]
+            .some(match => {
+                const referencedUri = vscode.Uri.joinPath(projectDir, ...match[1].split(/[\\/]/));
+                return referencedUri.fsPath.toLowerCase() === projectPath;
+            });
+
+        if (referencesProject) {
+            testProjects.push({ csprojUri, projectDir, rootNamespace: await extractRootNamespace(csprojUri) });
+        }
+    }
+
+    const preferredName = `${path.basename(project.csprojUri.fsPath, '.csproj')}${TEST_PROJECT_SUFFIX}`;
+    const isPreferred = (testProject: ProjectInfo) => path.basename(testProject.csprojUri.fsPath, '.csproj') === preferredName;
+    return testProjects.sort((a, b) => Number(isPreferred(b)) - Number(isPreferred(a)));
+}
+
+/**
+ * Detects the test framework a project uses from its package references
+ */
+export async function detectTestFramework(testProject: ProjectInfo): Promise<TestFramework | null> {
+    const text = await readProjectFile(testProject.csprojUri);
+    if (!text) {
+        return null;
+    }
+
+    const detected = TEST_FRAMEWORK_PACKAGES.find(([pattern]) => pattern.test(text));
+    return detected ? detected[1] : null;
+}
+
+/**
+ * Generates a test class for a handler in the test project, mirroring the handler's folder below its own project.
+ * Returns the file written, or null if it already exists.
+ */
+export async function generateHandlerTests(
+    handler: HandlerType,
+    handlerProject: ProjectInfo,
+    testProject: ProjectInfo,
+    framework: TestFramework
+): Promise<vscode.Uri | null> {
+    const handlerFolder = vscode.Uri.joinPath(handler.fileUri, '..');
+    const relativeFolder = path.relative(handlerProject.projectDir.fsPath, handlerFolder.fsPath);
+    const testFolder = relativeFolder && !relativeFolder.startsWith('..')
+        ? vscode.Uri.joinPath(testProject.projectDir, ...relativeFolder.split(path.sep))
+        : testProject.projectDir;
+
+    const handlerText = await readText(handler.fileUri);
+    const handlerNamespace = findNamespaceDeclaration(handlerText);
+    const handlerParameters = findConstructorParameters(handlerText, handler.typeName);
+
+    // The request may live in another file (and namespace) than its handler
+    await whenIndexReady();
+    const request = getRequestsForHandler(handler)[0];
+    const requestText = request ? await readText(request.fileUri) : '';
+    const requestNamespace = request ? findNamespaceDeclaration(requestText) : null;
+    const requestParameters = request ? findConstructorParameters(requestText, request.typeName) : [];
+
+    const namespaceName = await calculateNamespace(testFolder);
+    const syntax = TEST_FRAMEWORK_SYNTAX[framework];
+    const usings = [syntax.namespace];
+    for (const usingNamespace of [handlerNamespace, requestNamespace]) {
+        if (usingNamespace && usingNamespace !== namespaceName && !usings.includes(usingNamespace)) {
+            usings.push(usingNamespace);
+        }
+    }
+
+    const declaration = HANDLER_TEST_TEMPLATE
+        .replace(/{classAttribute}/g, syntax.classAttribute ? `${syntax.classAttribute}\n` : '')
+        .replace(/{methodAttribute}/g, syntax.methodAttribute)
+        .replace(/{assertSuccess}/g, syntax.assertSuccess)
+        .replace(/{handlerArguments}/g, formatArguments(handlerParameters, () => 'default!'))
+        .replace(/{requestArguments}/g, formatArguments(requestParameters, getSampleValue))
+        .replace(/{handlerName}/g, handler.typeName)
+        .replace(/{requestName}/g, request?.typeName ?? handler.requestTypeName);
+
+    const filePath = vscode.Uri.joinPath(testFolder, `${handler.typeName}Tests.cs`);
+    const content = wrapInNamespace(declaration, namespaceName, await detectNamespaceStyle(testFolder), usings);
+    const written = await writeNewFiles([{ uri: filePath, content }]);
+    return written ? written[0] : null;
+}
+
+/**
+ * Formats constructor arguments as named arguments (e.g., "name: \"test\", age: 1")
+ */
+function formatArguments(parameters: RequestProperty[], getValue: (type: string) => string): string {
+    return parameters.map(parameter => `${parameter.name}: ${getValue(parameter.type)}`).join(', ');
+}
+
+/**
+ * Picks a sample value for a parameter of the given type
+ */
+function getSampleValue(type: string): string {
+    const typeName = type.replace(/\s+/g, '').replace(/^(?:global::)?System\./, '');
+    if (typeName.endsWith('?')) {
+        return 'null';
+    }
+    return SAMPLE_VALUES[typeName] ?? 'default!';
+}
+
+/**
+ * Reads a file as text, preferring an open document so unsaved edits are included
+ */
+async function readText(fileUri: vscode.Uri): Promise<string> {
+    const document = await vscode.workspace.openTextDocument(fileUri);
+    return document.getText();
+}
@@ -0,0 +1,38 @@
+/**
+ * Converts text offsets to line and character positions for text that is not open in an editor.
+ * It does not depend on the VS Code API so it can be unit tested.
+ */
+
+/**
+ * A 0-based line and character in a text
+ */
+export interface TextPosition {
+    line: number;
+    character: number;
+}
+
+/**
+ * Creates a function that converts offsets in the text to 0-based positions, finding the line start of
+ * each line once so converting many offsets stays fast
+ */
+export function createPositionFinder(text: string): (offset: number) => TextPosition {
+    const lineStarts = [0];
+    for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+        lineStarts.push(index + 1);
+    }
+
+    return offset => {
+        // Binary search for the last line starting at or before the offset
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return { line: low, character: offset - lineStarts[low] };
+    };
+}
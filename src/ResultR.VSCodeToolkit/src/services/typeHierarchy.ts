@@ -0,0 +1,309 @@
+/**
+ * Walks the base classes and interfaces of type declarations to find the IRequest and IRequestHandler
+ * interfaces they implement, including through generic base classes and the parts of partial types.
+ * It does not depend on the VS Code API so it can be unit tested.
+ */
+import { TypeReferenceContext, TypeSymbol } from '../types';
+import { UsingDirective, splitTopLevel } from './csharpTokenizer';
+import {
+    createReferenceContext,
+    getSimpleTypeName,
+    isTypeReference,
+    mergeReferenceContexts,
+    resolveTypeReference
+} from './typeResolver';
+
+// Constraints that restrict the kind of type rather than naming a base type
+const TYPE_CONSTRAINT_KEYWORDS = new Set(['class', 'struct', 'notnull', 'unmanaged', 'default']);
+
+// The namespace ResultR declares its interfaces in
+const RESULTR_NAMESPACE = 'ResultR';
+
+// Namespaces whose imports can't bring another library's IRequest or IRequestHandler into scope
+const NON_CONFLICTING_NAMESPACES = /^(?:ResultR|System|Microsoft)(?:\.|$)/;
+
+// The numbers of type arguments ResultR's IRequest and IRequestHandler interfaces are declared with
+const RESULTR_INTERFACE_ARITIES: Record<ImplementedInterface['name'], number[]> = {
+    IRequest: [0, 1],
+    IRequestHandler: [1, 2]
+};
+
+/**
+ * A type argument along with the context it was written in, so it can still be resolved
+ * after being passed down through generic base types
+ */
+export interface TypeArgument {
+    /** The type as written (e.g., "CreateUserRequest" or "List<UserDto>") */
+    reference: string;
+    /** The namespace and using directives where the type was written */
+    context: TypeReferenceContext;
+}
+
+/**
+ * The declared types of a workspace, indexed for base type lookups
+ */
+export interface TypeHierarchy<T extends TypeSymbol> {
+    /** Every distinct type; a partial type has one entry per declaration */
+    types: T[][];
+    /** Gets the declarations of a partial type, or an empty list if there are none */
+    getParts(fullName: string): T[];
+    /** Finds the declarations of the type a name with the given number of type arguments refers to */
+    resolve(reference: string, context: TypeReferenceContext, arity: number): T[] | null;
+    /** The workspace's global using directives, which apply to every declaration */
+    globalContext: TypeReferenceContext;
+    /** Checks whether the workspace declares types in the namespace or in a namespace nested in it */
+    isDeclaredNamespace(namespaceName: string): boolean;
+}
+
+/**
+ * What a request type implements: the T of IRequest<T> and the full names of its declared base types
+ */
+export interface RequestDescription {
+    /** The T in IRequest<T>, or null for a void IRequest */
+    responseType: string | null;
+    /** The full names of every base class and interface declared in the workspace */
+    baseTypeNames: Set<string>;
+}
+
+/**
+ * A request type a handler implements IRequestHandler for
+ */
+export interface HandledRequest {
+    /** The TRequest of IRequestHandler<TRequest, ...> */
+    request: TypeArgument;
+    /** The TResponse of IRequestHandler<TRequest, TResponse>, or null for IRequestHandler<TRequest> */
+    responseType: string | null;
+    /** The constraints on TRequest when it is a type parameter of an open generic handler, otherwise null */
+    constraints: string[] | null;
+}
+
+/**
+ * A ResultR interface found among the base types, with its type arguments
+ */
+interface ImplementedInterface {
+    name: 'IRequest' | 'IRequestHandler';
+    typeArguments: TypeArgument[];
+}
+
+/**
+ * Indexes declared types by name so base types can be looked up, grouping the declarations of partial types
+ */
+export function createTypeHierarchy<T extends TypeSymbol>(symbols: T[], globalUsings: UsingDirective[] = []): TypeHierarchy<T> {
+    const types: T[][] = [];
+    const partialTypes = new Map<string, T[]>();
+    for (const symbol of symbols) {
+        const parts = symbol.isPartial ? partialTypes.get(symbol.fullName) : undefined;
+        if (parts) {
+            parts.push(symbol);
+            continue;
+        }
+        const group = [symbol];
+        types.push(group);
+        if (symbol.isPartial) {
+            partialTypes.set(symbol.fullName, group);
+        }
+    }
+
+    const typesByName = new Map<string, { fullName: string; parts: T[] }[]>();
+    for (const parts of types) {
+        const candidates = typesByName.get(parts[0].typeName) ?? [];
+        candidates.push({ fullName: parts[0].fullName, parts });
+        typesByName.set(parts[0].typeName, candidates);
+    }
+
+    const namespaces = new Set<string>();
+    for (const symbol of symbols) {
+        const parts = symbol.referenceContext.namespaceName?.split('.') ?? [];
+        parts.forEach((_, index) => namespaces.add(parts.slice(0, index + 1).join('.')));
+    }
+
+    return {
+        types,
+        globalContext: createReferenceContext(null, globalUsings),
+        isDeclaredNamespace: namespaceName => namespaces.has(namespaceName),
+        getParts: fullName => partialTypes.get(fullName) ?? [],
+        resolve(reference, context, arity) {
+            const candidates = (typesByName.get(getSimpleTypeName(reference)) ?? [])
+                .filter(candidate => candidate.parts[0].typeParameters.length === arity);
+            const [match] = resolveTypeReference(reference, context, candidates);
+
+            // A name that can't be resolved (e.g., imported through implicit usings) still matches an unambiguous type
+            return match?.parts ?? (candidates.length === 1 ? candidates[0].parts : null);
+        }
+    };
+}
+
+/**
+ * Describes the request implemented by a type, or returns null if the type is not a concrete request type
+ */
+export function describeRequest<T extends TypeSymbol>(parts: T[], hierarchy: TypeHierarchy<T>): RequestDescription | null {
+    if (parts[0].kind === 'interface' || parts.some(part => part.isAbstract)) {
+        return null;
+    }
+
+    const baseTypeNames = new Set([parts[0].fullName]);
+    const requestInterfaces = walkBaseTypes(parts, new Map(), hierarchy, baseTypeNames)
+        .filter(implemented => implemented.name === 'IRequest');
+    if (requestInterfaces.length === 0) {
+        return null;
+    }
+    baseTypeNames.delete(parts[0].fullName);
+
+    const generic = requestInterfaces.find(implemented => implemented.typeArguments.length === 1);
+    return { responseType: generic ? generic.typeArguments[0].reference : null, baseTypeNames };
+}
+
+/**
+ * Finds every request type a concrete handler class implements IRequestHandler for, directly or through its base classes
+ */
+export function describeHandler<T extends TypeSymbol>(parts: T[], hierarchy: TypeHierarchy<T>): HandledRequest[] {
+    if ((parts[0].kind !== 'class' && parts[0].kind !== 'record') || parts.some(part => part.isAbstract)) {
+        return [];
+    }
+
+    const typeParameters = new Set(parts[0].typeParameters);
+    const handledRequests: HandledRequest[] = [];
+
+    for (const implemented of walkBaseTypes(parts, new Map(), hierarchy, new Set([parts[0].fullName]))) {
+        const [request, response] = implemented.typeArguments;
+        if (implemented.name !== 'IRequestHandler' || !request) {
+            continue;
+        }
+
+        const requestName = request.reference.trim();
+        if (typeParameters.has(requestName)) {
+            handledRequests.push({
+                request,
+                responseType: response?.reference ?? null,
+                constraints: parts.flatMap(part => part.constraints[requestName] ?? [])
+            });
+        } else if (isTypeReference(requestName)) {
+            handledRequests.push({ request, responseType: response?.reference ?? null, constraints: null });
+        }
+    }
+
+    return handledRequests;
+}
+
+/**
+ * Collects the IRequest and IRequestHandler interfaces implemented by a type's base types, following
+ * base classes and interfaces declared in the workspace and adding their full names to the visited set.
+ * Type parameters of generic base types are replaced with the type arguments passed to them,
+ * so "CrudHandler<CreateUser>" yields IRequestHandler<CreateUser, ...>.
+ */
+function walkBaseTypes<T extends TypeSymbol>(
+    parts: T[],
+    substitutions: Map<string, TypeArgument>,
+    hierarchy: TypeHierarchy<T>,
+    visited: Set<string>
+): ImplementedInterface[] {
+    const implemented: ImplementedInterface[] = [];
+
+    for (const part of parts) {
+        for (const baseType of part.baseTypes) {
+            const { name, typeArguments } = parseGenericType(baseType);
+            const substituted = typeArguments.map(argument => substitute(argument, part.referenceContext, substitutions));
+            const interfaceName = getResultRInterfaceName(name, typeArguments.length, part.referenceContext, hierarchy);
+
+            if (interfaceName) {
+                implemented.push({ name: interfaceName, typeArguments: substituted });
+                continue;
+            }
+
+            const baseParts = hierarchy.resolve(name, part.referenceContext, typeArguments.length);
+            if (!baseParts || visited.has(baseParts[0].fullName)) {
+                continue;
+            }
+            visited.add(baseParts[0].fullName);
+
+            const baseSubstitutions = new Map<string, TypeArgument>();
+            baseParts[0].typeParameters.forEach((parameter, index) => baseSubstitutions.set(parameter, substituted[index]));
+            implemented.push(...walkBaseTypes(baseParts, baseSubstitutions, hierarchy, visited));
+        }
+    }
+
+    return implemented;
+}
+
+/**
+ * Gets which ResultR interface a base type names, or null when it is not one. Libraries such as MediatR declare
+ * interfaces with the same names, so the name must resolve to the ResultR namespace. A name that can't be resolved
+ * (e.g., ResultR imported through implicit usings in the project file) is only accepted when it is neither
+ * qualified nor aliased and no using directive in scope, including global ones, imports another library:
+ * a namespace other than ResultR's, the framework's or one declared in the workspace.
+ */
+function getResultRInterfaceName<T extends TypeSymbol>(
+    name: string,
+    arity: number,
+    declaredContext: TypeReferenceContext,
+    hierarchy: TypeHierarchy<T>
+): ImplementedInterface['name'] | null {
+    const simpleName = getSimpleTypeName(name);
+    if ((simpleName !== 'IRequest' && simpleName !== 'IRequestHandler') || !RESULTR_INTERFACE_ARITIES[simpleName].includes(arity)) {
+        return null;
+    }
+
+    const context = mergeReferenceContexts(declaredContext, hierarchy.globalContext);
+    if (resolveTypeReference(name, context, [{ fullName: `${RESULTR_NAMESPACE}.${simpleName}` }]).length > 0) {
+        return simpleName;
+    }
+
+    const isQualified = name.replace(/\s+/g, '').replace(/^global::/, '') !== simpleName;
+    const importsOtherLibrary = [...context.usings, ...context.staticUsings]
+        .some(target => !NON_CONFLICTING_NAMESPACES.test(target) && !hierarchy.isDeclaredNamespace(target));
+    return isQualified || context.aliases[simpleName] !== undefined || importsOtherLibrary ? null : simpleName;
+}
+
+/**
+ * Splits a generic type into its name and type arguments (e.g., "IRequestHandler<A, List<B>>" into "IRequestHandler", ["A", "List<B>"])
+ */
+function parseGenericType(type: string): { name: string; typeArguments: string[] } {
+    const openIndex = type.indexOf('<');
+    const closeIndex = type.lastIndexOf('>');
+    if (openIndex === -1 || closeIndex < openIndex) {
+        return { name: type.trim(), typeArguments: [] };
+    }
+    return {
+        name: type.slice(0, openIndex).trim(),
+        typeArguments: splitTopLevel(type.slice(openIndex + 1, closeIndex)).map(argument => argument.trim())
+    };
+}
+
+/**
+ * Replaces the type parameters in a type argument with the type arguments passed for them
+ */
+function substitute(argument: string, context: TypeReferenceContext, substitutions: Map<string, TypeArgument>): TypeArgument {
+    const passed = substitutions.get(argument);
+    if (passed) {
+        return passed;
+    }
+    return {
+        reference: argument.replace(/\b\w+\b/g, word => substitutions.get(word)?.reference ?? word),
+        context
+    };
+}
+
+/**
+ * Checks whether a request satisfies the constraints on the type parameter an open generic handler handles
+ * (e.g., "where TQuery : ICachedQuery"). Constraints that don't name a type, such as "class" or "new()", always hold.
+ */
+export function satisfiesConstraints<T extends TypeSymbol>(
+    request: RequestDescription,
+    constraints: string[],
+    context: TypeReferenceContext,
+    hierarchy: TypeHierarchy<T>
+): boolean {
+    return constraints.every(constraint => {
+        const { name, typeArguments } = parseGenericType(constraint);
+        if (!isTypeReference(name) || TYPE_CONSTRAINT_KEYWORDS.has(name)) {
+            return true;
+        }
+
+        if (getResultRInterfaceName(name, typeArguments.length, context, hierarchy) === 'IRequest') {
+            return typeArguments.length > 0 ? request.responseType !== null : request.responseType === null;
+        }
+
+        const constraintParts = hierarchy.resolve(name, context, typeArguments.length);
+        return constraintParts !== null && request.baseTypeNames.has(constraintParts[0].fullName);
+    });
+}
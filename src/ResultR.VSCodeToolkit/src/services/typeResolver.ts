@@ -0,0 +1,260 @@
+/**
+ * Resolves C# type names the way the compiler looks them up: through the enclosing namespaces,
+ * then the using directives in scope. It does not depend on the VS Code API so it can be unit tested.
+ */
+import { TypeReferenceContext } from '../types';
+import { Token, UsingDirective, findNamespaceAt, findTypeDeclarations, findUsingDirectives, tokenize } from './csharpTokenizer';
+
+/**
+ * An identifier in source text that refers to a type
+ */
+export interface TypeReference {
+    /** The offset of the first character of the identifier */
+    start: number;
+    /** The offset just past the last character of the identifier */
+    end: number;
+    /** The full name of the type the identifier refers to */
+    fullName: string;
+}
+
+// Framework type names and their C# keyword aliases
+const TYPE_KEYWORDS: Record<string, string> = {
+    Boolean: 'bool', Byte: 'byte', SByte: 'sbyte', Char: 'char', Decimal: 'decimal',
+    Double: 'double', Single: 'float', Int32: 'int', UInt32: 'uint', Int64: 'long',
+    UInt64: 'ulong', Int16: 'short', UInt16: 'ushort', Object: 'object', String: 'string'
+};
+
+/**
+ * Gets the namespace and the using directives in effect at the given offset
+ */
+export function getReferenceContext(text: string, offset: number): TypeReferenceContext {
+    const namespaceName = findNamespaceAt(text, offset);
+    const directives = findUsingDirectives(text).filter(directive =>
+        directive.namespaceName === null || isSameOrNestedNamespace(namespaceName, directive.namespaceName)
+    );
+    const context = createReferenceContext(namespaceName, directives);
+
+    // Declarations are in source order, so the last one enclosing the offset is the innermost
+    for (const declaration of findTypeDeclarations(text)) {
+        if (declaration.startIndex < offset && offset < declaration.declarationEnd) {
+            context.containingTypeName = getNestedTypeName(declaration.containingTypeName, declaration.typeName);
+        }
+    }
+    return context;
+}
+
+/**
+ * Creates a reference context from a namespace and the using directives that apply to it
+ */
+export function createReferenceContext(namespaceName: string | null, directives: UsingDirective[]): TypeReferenceContext {
+    const context: TypeReferenceContext = {
+        namespaceName,
+        containingTypeName: null,
+        usings: [],
+        staticUsings: [],
+        aliases: {}
+    };
+    for (const directive of directives) {
+        if (directive.alias !== null) {
+            context.aliases[directive.alias] = directive.target;
+        } else if (directive.isStatic) {
+            context.staticUsings.push(directive.target);
+        } else {
+            context.usings.push(directive.target);
+        }
+    }
+    return context;
+}
+
+/**
+ * Adds the usings and aliases of another context (e.g., the project's global usings) to a context
+ */
+export function mergeReferenceContexts(context: TypeReferenceContext, other: TypeReferenceContext): TypeReferenceContext {
+    return {
+        namespaceName: context.namespaceName,
+        containingTypeName: context.containingTypeName,
+        usings: [...new Set([...context.usings, ...other.usings])],
+        staticUsings: [...new Set([...context.staticUsings, ...other.staticUsings])],
+        aliases: { ...other.aliases, ...context.aliases }
+    };
+}
+
+/**
+ * Gets the simple name of a possibly qualified type name (e.g., "Users.CreateUserRequest" yields "CreateUserRequest")
+ */
+export function getSimpleTypeName(reference: string): string {
+    const name = normalizeReference(reference);
+    return name.slice(name.lastIndexOf('.') + 1);
+}
+
+/**
+ * Checks whether a type argument is a plain or qualified type name that can be resolved, rather than
+ * a generic, array, tuple or nullable type
+ */
+export function isTypeReference(value: string): boolean {
+    return /^\w+(?:\.\w+)*$/.test(normalizeReference(value));
+}
+
+/**
+ * Combines a namespace, the containing types of a nested type and a type name into the type's full name
+ */
+export function getFullName(
+    namespaceName: string | null | undefined,
+    typeName: string,
+    containingTypeName: string | null = null
+): string {
+    const nestedName = getNestedTypeName(containingTypeName, typeName);
+    return namespaceName ? `${namespaceName}.${nestedName}` : nestedName;
+}
+
+/**
+ * Finds the candidate types a type name written in the given context refers to.
+ * The lookup tries the members of each enclosing type, then each enclosing namespace from the innermost
+ * outward, then the global namespace, then the using directives, and stops at the first step that finds a match. Returns every candidate
+ * matched by that step (more than one when the name is ambiguous), or none when no candidate matches.
+ */
+export function resolveTypeReference<T extends { fullName?: string }>(
+    reference: string,
+    context: TypeReferenceContext,
+    candidates: T[]
+): T[] {
+    const name = normalizeReference(reference);
+
+    // "global::" names are looked up from the global namespace only
+    const steps = /^\s*global::/.test(reference) ? [new Set([name])] : getLookupSteps(name, context);
+
+    for (const fullNames of steps) {
+        const matches = candidates.filter(candidate => candidate.fullName !== undefined && fullNames.has(candidate.fullName));
+        if (matches.length > 0) {
+            return matches;
+        }
+    }
+
+    return [];
+}
+
+/**
+ * Finds the identifiers in the text that refer to one of the target types. Each identifier named like a target
+ * is resolved, with the qualifiers written before it (e.g., "Users.CreateUserRequest"), in the context it
+ * appears in against every known type, so members and other types that share the name are left out.
+ * The global context adds using directives that apply to the text without being written in it.
+ */
+export function findTypeReferences(
+    text: string,
+    targetFullNames: string[],
+    knownFullNames: string[],
+    globalContext: TypeReferenceContext
+): TypeReference[] {
+    const targets = new Set(targetFullNames);
+    const simpleNames = new Set(targetFullNames.map(getSimpleTypeName));
+    const candidates = [...new Set([...knownFullNames, ...targetFullNames])].map(fullName => ({ fullName }));
+    const references: TypeReference[] = [];
+
+    const tokens = tokenize(text);
+    tokens.forEach((token, index) => {
+        if (token.kind !== 'identifier' || !simpleNames.has(token.text)) {
+            return;
+        }
+
+        const context = mergeReferenceContexts(getReferenceContext(text, token.start), globalContext);
+        const namedCandidates = candidates.filter(candidate => getSimpleTypeName(candidate.fullName) === token.text);
+        const target = resolveTypeReference(readQualifiedName(tokens, index), context, namedCandidates)
+            .find(candidate => targets.has(candidate.fullName));
+        if (target) {
+            references.push({ start: token.start, end: token.end, fullName: target.fullName });
+        }
+    });
+
+    return references;
+}
+
+/**
+ * Normalizes a C# type name for comparison by removing whitespace and namespace
+ * qualifiers and mapping framework type names to their keywords
+ */
+export function normalizeTypeName(typeName: string): string {
+    return typeName
+        .replace(/\s+/g, '')
+        .replace(/global::/g, '')
+        .replace(/\b(?:\w+\.)+(?=\w)/g, '')
+        .replace(/\b\w+\b/g, word => TYPE_KEYWORDS[word] ?? word);
+}
+
+/**
+ * Gets the full names a type name may stand for, grouped by lookup step in the order the compiler tries them
+ */
+function getLookupSteps(name: string, context: TypeReferenceContext): Set<string>[] {
+    const steps: Set<string>[] = [];
+
+    // "Alias.Rest" replaces the alias with its target
+    const [firstPart, ...rest] = name.split('.');
+    const aliasTarget = context.aliases[firstPart];
+
+    // Types nested in the enclosing types, innermost first
+    const namespacePrefix = context.namespaceName ? `${context.namespaceName}.` : '';
+    const containingTypeParts = context.containingTypeName ? context.containingTypeName.split('.') : [];
+    for (let length = containingTypeParts.length; length > 0; length--) {
+        steps.push(new Set([`${namespacePrefix}${containingTypeParts.slice(0, length).join('.')}.${name}`]));
+    }
+
+    // Names in the enclosing namespaces, innermost first, then the global namespace
+    const namespaceParts = context.namespaceName ? context.namespaceName.split('.') : [];
+    for (let length = namespaceParts.length; length > 0; length--) {
+        steps.push(new Set([`${namespaceParts.slice(0, length).join('.')}.${name}`]));
+    }
+    steps.push(new Set([name]));
+
+    // Using directives import the types of a namespace, or the nested types of a static type. A qualified
+    // name may start with an imported type (e.g., "CreateUser.Command"), which can't be told apart from a
+    // nested namespace here, so both are accepted.
+    const imported = new Set<string>();
+    for (const usingNamespace of [...context.usings, ...context.staticUsings]) {
+        imported.add(`${usingNamespace}.${name}`);
+    }
+    if (aliasTarget !== undefined) {
+        imported.add([aliasTarget, ...rest].join('.'));
+    }
+    steps.push(imported);
+
+    return steps;
+}
+
+/**
+ * Joins the containing types of a nested type with its name (e.g., "CreateUser.Command")
+ */
+function getNestedTypeName(containingTypeName: string | null, typeName: string): string {
+    return containingTypeName ? `${containingTypeName}.${typeName}` : typeName;
+}
+
+/**
+ * Checks whether a namespace is the given namespace or nested inside it
+ */
+function isSameOrNestedNamespace(namespaceName: string | null, containingNamespace: string): boolean {
+    return namespaceName === containingNamespace || (namespaceName?.startsWith(`${containingNamespace}.`) ?? false);
+}
+
+/**
+ * Reads the possibly qualified name that ends at the identifier at the given token index
+ * (e.g., "global::MyApp.Users.CreateUserRequest")
+ */
+function readQualifiedName(tokens: Token[], index: number): string {
+    let name = tokens[index].text;
+    let first = index;
+    while (first >= 2 && tokens[first - 1].text === '.' && tokens[first - 2].kind === 'identifier') {
+        first -= 2;
+        name = `${tokens[first].text}.${name}`;
+    }
+
+    const isGlobal = first >= 3
+        && tokens[first - 1].text === ':'
+        && tokens[first - 2].text === ':'
+        && tokens[first - 3].text === 'global';
+    return isGlobal ? `global::${name}` : name;
+}
+
+/**
+ * Removes whitespace and the "global::" prefix from a type name
+ */
+function normalizeReference(reference: string): string {
+    return reference.replace(/\s+/g, '').replace(/^global::/, '');
+}
@@ -0,0 +1,47 @@
+/**
+ * Picks default ResultR.Validation rules for generated ValidateAsync hooks.
+ * It does not depend on the VS Code API so it can be unit tested.
+ */
+
+// Zero literal of each numeric type, typed so GreaterThan(...) binds to the property type
+const NUMERIC_ZERO_LITERALS = new Map([
+    ['byte', '(byte)0'], ['Byte', '(byte)0'],
+    ['sbyte', '(sbyte)0'], ['SByte', '(sbyte)0'],
+    ['short', '(short)0'], ['Int16', '(short)0'],
+    ['ushort', '(ushort)0'], ['UInt16', '(ushort)0'],
+    ['int', '0'], ['Int32', '0'],
+    ['uint', '0u'], ['UInt32', '0u'],
+    ['long', '0L'], ['Int64', '0L'],
+    ['ulong', '0UL'], ['UInt64', '0UL'],
+    ['float', '0f'], ['Single', '0f'],
+    ['double', '0d'], ['Double', '0d'],
+    ['decimal', '0m'], ['Decimal', '0m']
+]);
+
+// Value types that have no sensible default rule
+const OTHER_VALUE_TYPES = new Set([
+    'bool', 'char', 'Boolean', 'Char', 'Guid', 'DateTime', 'DateTimeOffset', 'DateOnly', 'TimeOnly', 'TimeSpan'
+]);
+
+/**
+ * Picks a default ResultR.Validation rule for a property type:
+ * NotEmpty() for strings, GreaterThan with a zero of the same type for numerics and NotNull() for other reference types.
+ * Nullable properties are optional, and other value types have no sensible default, so they get no rule.
+ */
+export function getValidationRule(type: string): string | null {
+    const typeName = type.replace(/\s+/g, '').replace(/^(?:global::)?System\./, '');
+    if (typeName.endsWith('?')) {
+        return null;
+    }
+    if (typeName === 'string' || typeName === 'String') {
+        return 'NotEmpty()';
+    }
+    const zero = NUMERIC_ZERO_LITERALS.get(typeName);
+    if (zero !== undefined) {
+        return `GreaterThan(${zero})`;
+    }
+    if (OTHER_VALUE_TYPES.has(typeName)) {
+        return null;
+    }
+    return 'NotNull()';
+}
@@ -0,0 +1,567 @@
+import * as vscode from 'vscode';
+import { DeclaredType, DispatchSite, HandlerType, RequestType, SourceText, TypeReferenceContext, getConfig } from '../types';
+import { findTypesInText } from './csharpParser';
+import { UsingDirective, findUsingDirectives } from './csharpTokenizer';
+import { findDispatchesInText } from './dispatchLocator';
+import {
+    AnalyzedHandler,
+    AnalyzedRequest,
+    RequestMatcher,
+    analyzeTypeSymbols,
+    createRequestMatcher,
+    describeTypes,
+    pickMainDeclaration
+} from './requestAnalysis';
+import { createPositionFinder } from './textPositions';
+import { TypeHierarchy, createTypeHierarchy } from './typeHierarchy';
+import { createReferenceContext } from './typeResolver';
+
+/**
+ * The declarations found in a single file
+ */
+interface IndexedFile {
+    types: DeclaredType[];
+    dispatches: DispatchSite[];
+    globalUsings: UsingDirective[];
+}
+
+/**
+ * The requests and handlers found by walking the base types of every indexed type
+ */
+interface IndexAnalysis {
+    hierarchy: TypeHierarchy<DeclaredType>;
+    requests: RequestType[];
+    handlers: HandlerType[];
+    matcher: RequestMatcher<RequestType, HandlerType>;
+}
+
+// Delay before re-scanning a document that is being edited
+const DOCUMENT_UPDATE_DELAY_MS = 300;
+
+// Number of files read from disk concurrently while building the index
+const BUILD_BATCH_SIZE = 64;
+
+let indexedFiles = new Map<string, IndexedFile>();
+let indexReady: Promise<void> = Promise.resolve();
+let buildGeneration = 0;
+let excludeMatchers: RegExp[] = [];
+let analysis: IndexAnalysis | undefined;
+let log: vscode.LogOutputChannel | undefined;
+const pendingDocumentUpdates = new Map<string, NodeJS.Timeout>();
+const onDidChangeIndexEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fires whenever requests, handlers or dispatch sites are added, changed or removed from the index
+ */
+export const onDidChangeIndex = onDidChangeIndexEmitter.event;
+
+/**
+ * Builds the workspace index of requests, handlers and dispatch sites and keeps it current
+ * through file system and document change events.
+ */
+export function initializeWorkspaceIndex(context: vscode.ExtensionContext): void {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.cs');
+    log = vscode.window.createOutputChannel('ResultR', { log: true });
+
+    context.subscriptions.push(
+        log,
+        watcher,
+        onDidChangeIndexEmitter,
+        watcher.onDidCreate(uri => queueFileUpdate(uri)),
+        watcher.onDidChange(uri => {
+            // Open documents are tracked through document change events instead
+            if (!findOpenDocument(uri)) {
+                queueFileUpdate(uri);
+            }
+        }),
+        watcher.onDidDelete(uri => removeFile(uri)),
+        vscode.workspace.onDidChangeTextDocument(event => scheduleDocumentUpdate(event.document)),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            // Unsaved edits are discarded when a document is closed, so fall back to the file on disk
+            if (isIndexable(document.uri)) {
+                queueFileUpdate(document.uri);
+            }
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('resultr.search.excludePatterns')) {
+                rebuildIndex();
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => rebuildIndex()),
+        { dispose: () => clearPendingDocumentUpdates() }
+    );
+
+    rebuildIndex();
+}
+
+/**
+ * Discards the current index and scans the whole workspace again, e.g. to recover from files that could not be read
+ */
+export function rescanWorkspaceIndex(): void {
+    rebuildIndex();
+}
+
+/**
+ * Waits for the initial (or in-progress) index build to complete
+ */
+export async function whenIndexReady(): Promise<void> {
+    await indexReady;
+}
+
+/**
+ * Gets all indexed request types
+ */
+export function getAllRequests(): RequestType[] {
+    return getAnalysis().requests;
+}
+
+/**
+ * Gets all indexed handlers
+ */
+export function getAllHandlers(): HandlerType[] {
+    return getAnalysis().handlers;
+}
+
+/**
+ * Gets all indexed request types with the given simple name
+ */
+export function getRequestsByName(typeName: string): RequestType[] {
+    return getAllRequests().filter(request => request.typeName === typeName);
+}
+
+/**
+ * Finds the requests and handlers among types declared in a single document, which may have unsaved
+ * changes the index does not have yet. Base types and the other parts of partial types come from the index.
+ */
+export function analyzeTypes(types: DeclaredType[]): { requests: RequestType[]; handlers: HandlerType[] } {
+    const { hierarchy } = getAnalysis();
+    const fileKeys = new Set(types.map(type => type.fileUri.toString()));
+
+    const groups = createTypeHierarchy(types).types.map(parts => {
+        const otherParts = parts[0].isPartial
+            ? hierarchy.getParts(parts[0].fullName).filter(part => !fileKeys.has(part.fileUri.toString()))
+            : [];
+        return { parts: [...parts, ...otherParts], location: pickMainDeclaration(parts) };
+    });
+
+    const { requests, handlers } = describeTypes(groups, hierarchy);
+    return { requests: requests.map(toRequestType), handlers: handlers.map(toHandlerType) };
+}
+
+/**
+ * Resolves a request type name written in the given context to the indexed request types it refers to.
+ * Falls back to every request type with the same simple name when the name cannot be resolved
+ * (e.g., when it is imported through implicit usings the index does not know about).
+ */
+export function resolveRequestReference(reference: string, context: TypeReferenceContext): RequestType[] {
+    return getAnalysis().matcher.resolveRequestReference(reference, context);
+}
+
+/**
+ * Gets the indexed request types a handler's IRequestHandler<TRequest> refers to,
+ * or every request matching the constraints of an open generic handler
+ */
+export function getRequestsForHandler(handler: HandlerType): RequestType[] {
+    return getAnalysis().matcher.getRequestsForHandler(handler);
+}
+
+/**
+ * Gets all indexed handlers that implement IRequestHandler for the given request type
+ */
+export function getHandlersForRequest(request: RequestType): HandlerType[] {
+    return getAnalysis().matcher.getHandlersForRequest(request);
+}
+
+/**
+ * Gets all indexed Dispatch(...) calls for the given request type,
+ * or for any request type with the given simple name when it is not declared in the workspace
+ */
+export function getDispatchesForRequest(request: RequestType | string): DispatchSite[] {
+    const requestTypeName = typeof request === 'string' ? request : request.typeName;
+    const dispatches: DispatchSite[] = [];
+    for (const file of indexedFiles.values()) {
+        for (const dispatch of file.dispatches) {
+            if (dispatch.requestTypeName !== requestTypeName) {
+                continue;
+            }
+            if (typeof request === 'string'
+                || refersTo(resolveRequestReference(dispatch.requestTypeReference, dispatch.referenceContext), request)) {
+                dispatches.push(dispatch);
+            }
+        }
+    }
+    return dispatches;
+}
+
+/**
+ * Gets every indexed file
+ */
+export function getIndexedFileUris(): vscode.Uri[] {
+    return [...indexedFiles.keys()].map(key => vscode.Uri.parse(key));
+}
+
+/**
+ * Gets every indexed type declaration with the given simple name
+ */
+export function getDeclaredTypesByName(typeName: string): DeclaredType[] {
+    return [...indexedFiles.values()].flatMap(file => file.types.filter(type => type.typeName === typeName));
+}
+
+/**
+ * Gets the type declarations indexed for a file
+ */
+export function getDeclaredTypesInFile(uri: vscode.Uri): DeclaredType[] {
+    return indexedFiles.get(uri.toString())?.types ?? [];
+}
+
+/**
+ * Gets the full names of every type declared in the indexed files
+ */
+export function getDeclaredTypeNames(): string[] {
+    return [...new Set([...indexedFiles.values()].flatMap(file => file.types.map(type => type.fullName)))];
+}
+
+/**
+ * Gets the global using directives declared anywhere in the workspace as a reference context
+ */
+export function getGlobalUsingsContext(): TypeReferenceContext {
+    return createReferenceContext(null, [...indexedFiles.values()].flatMap(file => file.globalUsings));
+}
+
+/**
+ * Checks whether any indexed file other than the excluded ones declares a type in the given namespace
+ */
+export function isNamespaceDeclared(namespaceName: string, excludedFiles: Set<string>): boolean {
+    for (const [key, file] of indexedFiles) {
+        if (!excludedFiles.has(key) && file.types.some(type => type.namespaceName === namespaceName)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Checks whether resolved request types include the given request type
+ */
+function refersTo(requests: RequestType[], request: RequestType): boolean {
+    return requests.some(candidate => candidate.fullName === request.fullName);
+}
+
+/**
+ * Walks the base types of every indexed type to find the requests and handlers, reusing the result until the index changes
+ */
+function getAnalysis(): IndexAnalysis {
+    if (!analysis) {
+        const files = [...indexedFiles.values()];
+        const globalUsings = files.flatMap(file => file.globalUsings);
+        const typeAnalysis = analyzeTypeSymbols(files.flatMap(file => file.types), globalUsings);
+        const requests = typeAnalysis.requests.map(toRequestType);
+        const handlers = typeAnalysis.handlers.map(toHandlerType);
+        analysis = {
+            hierarchy: typeAnalysis.hierarchy,
+            requests,
+            handlers,
+            matcher: createRequestMatcher(requests, handlers, typeAnalysis, globalUsings)
+        };
+    }
+    return analysis;
+}
+
+/**
+ * Creates the request entry for a request found among the declared types, located at its declaration header
+ */
+function toRequestType({ declaration, ...request }: AnalyzedRequest<DeclaredType>): RequestType {
+    return { ...request, fileUri: declaration.fileUri, position: declaration.position, range: declaration.range };
+}
+
+/**
+ * Creates the handler entry for a handler found among the declared types, located at its name
+ */
+function toHandlerType({ declaration, ...handler }: AnalyzedHandler<DeclaredType>): HandlerType {
+    return { ...handler, fileUri: declaration.fileUri, position: declaration.nameRange.start, range: declaration.nameRange };
+}
+
+/**
+ * Discards the analysis derived from the index after it changes
+ */
+function invalidateAnalysis(): void {
+    analysis = undefined;
+}
+
+/**
+ * Discards the current index and scans the whole workspace again
+ */
+function rebuildIndex(): void {
+    excludeMatchers = getConfig().search.excludePatterns.map(globToRegExp);
+
+    // A failed build leaves the previous index in place, so features keep working until the next rescan
+    indexReady = buildIndex().catch(error => {
+        log?.error(`Failed to index the workspace: ${getErrorMessage(error)}`);
+    });
+    vscode.window.setStatusBarMessage('$(sync~spin) ResultR: Indexing requests, handlers and dispatches...', indexReady);
+}
+
+/**
+ * Scans every C# file in the workspace and replaces the index once complete.
+ * Files that can't be found, read or scanned are logged and left out, so the index may be partial.
+ */
+async function buildIndex(): Promise<void> {
+    const generation = ++buildGeneration;
+    const config = getConfig();
+    let files: vscode.Uri[] = [];
+    try {
+        files = await vscode.workspace.findFiles(
+            '**/*.cs',
+            `{${config.search.excludePatterns.join(',')}}`
+        );
+    } catch (error) {
+        log?.error(`Failed to search the workspace for C# files: ${getErrorMessage(error)}`);
+    }
+
+    const newIndex = new Map<string, IndexedFile>();
+    for (let i = 0; i < files.length; i += BUILD_BATCH_SIZE) {
+        const batch = files.slice(i, i + BUILD_BATCH_SIZE);
+        await Promise.all(batch.map(async fileUri => {
+            const text = await readFileText(fileUri);
+            const file = text === null ? null : tryScanText(text, createSourceText(fileUri, text));
+            if (file) {
+                newIndex.set(fileUri.toString(), file);
+            }
+        }));
+    }
+
+    // Open documents may contain edits that have not been saved yet
+    for (const document of vscode.workspace.textDocuments) {
+        const file = isIndexable(document.uri) ? tryScanText(document.getText(), document) : null;
+        if (file) {
+            newIndex.set(document.uri.toString(), file);
+        }
+    }
+
+    // A newer rebuild was started while this one was running
+    if (generation !== buildGeneration) {
+        return;
+    }
+
+    indexedFiles = newIndex;
+    invalidateAnalysis();
+    onDidChangeIndexEmitter.fire();
+}
+
+/**
+ * Re-scans an open document shortly after it stops changing
+ */
+function scheduleDocumentUpdate(document: vscode.TextDocument): void {
+    if (document.languageId !== 'csharp' || !isIndexable(document.uri)) {
+        return;
+    }
+
+    const key = document.uri.toString();
+    const pending = pendingDocumentUpdates.get(key);
+    if (pending) {
+        clearTimeout(pending);
+    }
+
+    pendingDocumentUpdates.set(key, setTimeout(() => {
+        pendingDocumentUpdates.delete(key);
+        const file = document.isClosed ? null : tryScanText(document.getText(), document);
+        if (file) {
+            setFile(document.uri, file);
+        }
+    }, DOCUMENT_UPDATE_DELAY_MS));
+}
+
+/**
+ * Re-scans a file from disk without waiting for it, logging any failure
+ */
+function queueFileUpdate(fileUri: vscode.Uri): void {
+    updateFileFromDisk(fileUri).catch(error => {
+        log?.error(`Failed to update ${fileUri.fsPath}: ${getErrorMessage(error)}`);
+    });
+}
+
+/**
+ * Re-scans a file from disk. A file that can't be scanned keeps its previous entry.
+ */
+async function updateFileFromDisk(fileUri: vscode.Uri): Promise<void> {
+    if (!isIndexable(fileUri)) {
+        return;
+    }
+
+    const text = await readFileText(fileUri);
+    if (text === null) {
+        removeFile(fileUri);
+        return;
+    }
+
+    const file = tryScanText(text, createSourceText(fileUri, text));
+    if (file) {
+        setFile(fileUri, file);
+    }
+}
+
+/**
+ * Stores the scan result for a file and notifies listeners
+ */
+function setFile(fileUri: vscode.Uri, file: IndexedFile): void {
+    indexedFiles.set(fileUri.toString(), file);
+    invalidateAnalysis();
+    onDidChangeIndexEmitter.fire();
+}
+
+/**
+ * Removes a file, or every file below a deleted folder, from the index
+ */
+function removeFile(uri: vscode.Uri): void {
+    const key = uri.toString();
+    const folderPrefix = key.endsWith('/') ? key : `${key}/`;
+    let removed = false;
+
+    for (const indexedKey of [...indexedFiles.keys()]) {
+        if (indexedKey === key || indexedKey.startsWith(folderPrefix)) {
+            indexedFiles.delete(indexedKey);
+            removed = true;
+        }
+    }
+
+    if (removed) {
+        invalidateAnalysis();
+        onDidChangeIndexEmitter.fire();
+    }
+}
+
+/**
+ * Finds all type declarations, dispatch sites and global usings in the given text
+ */
+function scanText(text: string, source: SourceText): IndexedFile {
+    return {
+        types: findTypesInText(text, source),
+        dispatches: findDispatchesInText(text, source),
+        globalUsings: findUsingDirectives(text).filter(directive => directive.isGlobal)
+    };
+}
+
+/**
+ * Scans the given text, logging and returning null if scanning fails
+ */
+function tryScanText(text: string, source: SourceText): IndexedFile | null {
+    try {
+        return scanText(text, source);
+    } catch (error) {
+        log?.error(`Failed to scan ${source.uri.fsPath}: ${getErrorMessage(error)}`);
+        return null;
+    }
+}
+
+/**
+ * Checks whether a file belongs to the workspace and is not excluded by the search settings
+ */
+function isIndexable(uri: vscode.Uri): boolean {
+    if (!uri.path.endsWith('.cs') || !vscode.workspace.getWorkspaceFolder(uri)) {
+        return false;
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(uri, false);
+    return !excludeMatchers.some(matcher => matcher.test(relativePath));
+}
+
+/**
+ * Finds the open text document for a file, if any
+ */
+function findOpenDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+    const key = uri.toString();
+    return vscode.workspace.textDocuments.find(document => document.uri.toString() === key);
+}
+
+/**
+ * Reads a file as text, returning null if it cannot be read. Files deleted in the meantime are expected;
+ * other failures are logged.
+ */
+async function readFileText(fileUri: vscode.Uri): Promise<string | null> {
+    try {
+        const content = await vscode.workspace.fs.readFile(fileUri);
+        return new TextDecoder().decode(content);
+    } catch (error) {
+        if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+            log?.error(`Failed to read ${fileUri.fsPath}: ${getErrorMessage(error)}`);
+        }
+        return null;
+    }
+}
+
+/**
+ * Gets the message of an error for the log
+ */
+function getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Creates a lightweight SourceText for file content that is not open in an editor,
+ * avoiding the cost of opening a TextDocument for every file in the workspace.
+ */
+function createSourceText(uri: vscode.Uri, text: string): SourceText {
+    const findPosition = createPositionFinder(text);
+    return {
+        uri,
+        positionAt(offset: number): vscode.Position {
+            const { line, character } = findPosition(offset);
+            return new vscode.Position(line, character);
+        }
+    };
+}
+
+/**
+ * Cancels all pending document re-scans
+ */
+function clearPendingDocumentUpdates(): void {
+    for (const pending of pendingDocumentUpdates.values()) {
+        clearTimeout(pending);
+    }
+    pendingDocumentUpdates.clear();
+}
+
+/**
+ * Converts a search exclude glob into a regular expression that matches workspace-relative paths
+ */
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // "**/" matches zero or more folders, a trailing "**" matches everything
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            source += '(?:';
+            braceDepth++;
+        } else if (char === '}' && braceDepth > 0) {
+            source += ')';
+            braceDepth--;
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Escapes special regex characters
+ */
+function escapeRegExp(string: string): string {
+    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { countProblems, formatAnalysisReport } from '../services/analysisReport';
+import { analyzeSourceFiles } from '../services/requestAnalysis';
+
+// A request without a handler, a request with two handlers and a handler returning the wrong type
+const analysis = analyzeSourceFiles([
+    {
+        path: 'src/Users.cs',
+        text: [
+            'namespace App.Users;',
+            'record DeleteUser : IRequest;',
+            'class DeleteUserHandler : IRequestHandler<DeleteUser> { }',
+            'class LegacyDeleteUserHandler : IRequestHandler<DeleteUser> { }'
+        ].join('\n')
+    },
+    {
+        path: 'src/Orders.cs',
+        text: [
+            'namespace App.Orders;',
+            'record GetOrder : IRequest<OrderDto>;',
+            'class GetOrderHandler : IRequestHandler<GetOrder, string> { }',
+            'record CancelOrder : IRequest;'
+        ].join('\n')
+    }
+]);
+
+const tool = { name: 'resultr-analyze', version: '1.0.0' };
+
+describe('countProblems', () => {
+    it('counts errors only, or warnings and errors', () => {
+        assert.strictEqual(countProblems(analysis, 'error'), 1);
+        assert.strictEqual(countProblems(analysis, 'warning'), 3);
+    });
+});
+
+describe('formatAnalysisReport', () => {
+    it('writes a JSON summary and the problems sorted by file and line', () => {
+        const report = JSON.parse(formatAnalysisReport(analysis, 'json', tool));
+
+        assert.deepStrictEqual(report.summary, { requests: 3, handlers: 3, errors: 1, warnings: 2 });
+        assert.deepStrictEqual(
+            report.problems.map((problem: { code: string; locations: { file: string; line: number }[] }) =>
+                [problem.code, problem.locations.map(location => `${location.file}:${location.line}`)]),
+            [
+                ['ResultR1003', ['src/Orders.cs:3']],
+                ['ResultR1001', ['src/Orders.cs:4']],
+                ['ResultR1002', ['src/Users.cs:2', 'src/Users.cs:3', 'src/Users.cs:4']]
+            ]
+        );
+    });
+
+    it('writes a SARIF log with the rules and a result per problem', () => {
+        const log = JSON.parse(formatAnalysisReport(analysis, 'sarif', tool));
+        const [run] = log.runs;
+
+        assert.strictEqual(log.version, '2.1.0');
+        assert.strictEqual(run.tool.driver.name, 'resultr-analyze');
+        assert.deepStrictEqual(
+            run.tool.driver.rules.map((rule: { id: string; name: string }) => [rule.id, rule.name]),
+            [['ResultR1001', 'MissingHandler'], ['ResultR1002', 'DuplicateHandler'], ['ResultR1003', 'ResponseTypeMismatch']]
+        );
+        assert.deepStrictEqual(
+            run.results.map((result: { ruleId: string; level: string }) => [result.ruleId, result.level]),
+            [['ResultR1003', 'error'], ['ResultR1001', 'warning'], ['ResultR1002', 'warning']]
+        );
+    });
+
+    it('reports other handlers of a duplicated request as related locations', () => {
+        const duplicate = JSON.parse(formatAnalysisReport(analysis, 'sarif', tool)).runs[0].results[2];
+
+        assert.deepStrictEqual(duplicate.locations[0].physicalLocation, {
+            artifactLocation: { uri: 'src/Users.cs' },
+            region: { startLine: 2, startColumn: 8, endLine: 2, endColumn: 18 }
+        });
+        assert.strictEqual(duplicate.relatedLocations.length, 2);
+    });
+});
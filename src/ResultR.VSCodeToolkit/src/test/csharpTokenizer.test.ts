@@ -0,0 +1,319 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import {
+    findNamespaceAt,
+    findNamespaceDeclarations,
+    findTypeDeclarations,
+    findUsingDirectives,
+    getCodeText,
+    splitTopLevel,
+    tokenize
+} from '../services/csharpTokenizer';
+
+describe('tokenize', () => {
+    it('skips line comments, block comments and preprocessor directives', () => {
+        const tokens = tokenize([
+            '#nullable enable',
+            '// class Commented : IRequest;',
+            '/* class AlsoCommented : IRequest; */',
+            'class Real { }'
+        ].join('\n'));
+
+        assert.deepStrictEqual(tokens.map(token => token.text), ['class', 'Real', '{', '}']);
+    });
+
+    it('reads regular strings with escaped quotes as a single token', () => {
+        const tokens = tokenize('var s = "class \\"Fake\\" : IRequest;";');
+
+        assert.deepStrictEqual(tokens.map(token => token.kind), ['identifier', 'identifier', 'punctuation', 'string', 'punctuation']);
+        assert.strictEqual(tokens[3].text, '"class \\"Fake\\" : IRequest;"');
+    });
+
+    it('reads verbatim strings with doubled quotes as a single token', () => {
+        const tokens = tokenize('var s = @"C:\\path ""class Fake"" {";');
+
+        assert.strictEqual(tokens[3].kind, 'string');
+        assert.strictEqual(tokens[3].text, '@"C:\\path ""class Fake"" {"');
+        assert.strictEqual(tokens[4].text, ';');
+    });
+
+    it('reads raw string literals that contain quotes and braces', () => {
+        const tokens = tokenize('var s = """\n  class Fake { "quoted" }\n  """;');
+
+        assert.strictEqual(tokens[3].kind, 'string');
+        assert.strictEqual(tokens[4].text, ';');
+    });
+
+    it('reads interpolated strings with nested strings and braces in holes', () => {
+        const tokens = tokenize('var s = $"{{literal}} {(flag ? "}" : "{")} {new { A = 1 }.A}";');
+
+        assert.strictEqual(tokens[3].kind, 'string');
+        assert.strictEqual(tokens[4].text, ';');
+        assert.strictEqual(tokens.length, 5);
+    });
+
+    it('reads character literals, including quotes and braces', () => {
+        const tokens = tokenize("var a = '\\''; var b = '{';");
+
+        assert.deepStrictEqual(tokens.filter(token => token.kind === 'char').map(token => token.text), ["'\\''", "'{'"]);
+    });
+
+    it('strips the @ from verbatim identifiers', () => {
+        const tokens = tokenize('var @class = 1;');
+
+        assert.strictEqual(tokens[1].kind, 'identifier');
+        assert.strictEqual(tokens[1].text, 'class');
+    });
+});
+
+describe('getCodeText', () => {
+    it('blanks out comments, strings and preprocessor directives at the same offsets', () => {
+        const text = '#if DEBUG\nvar s = "Dispatch(x)"; // Dispatch(y)\n/* Dispatch(z) */ Dispatch(request);';
+        const code = getCodeText(text);
+
+        assert.strictEqual(code.length, text.length);
+        assert.strictEqual(code.indexOf('Dispatch'), text.lastIndexOf('Dispatch'));
+        assert.deepStrictEqual(code.split('\n').map(line => line.trim().replace(/\s+/g, ' ')), ['', 'var s = ;', 'Dispatch(request);']);
+    });
+});
+
+describe('findTypeDeclarations', () => {
+    it('reads a positional record with its primary constructor and base list', () => {
+        const [declaration] = findTypeDeclarations('public record CreateUserRequest(string Name, int Age) : IRequest<Guid>;');
+
+        assert.strictEqual(declaration.kind, 'record');
+        assert.strictEqual(declaration.typeName, 'CreateUserRequest');
+        assert.strictEqual(declaration.parameters, 'string Name, int Age');
+        assert.deepStrictEqual(declaration.baseTypes, ['IRequest<Guid>']);
+    });
+
+    it('keeps nested generics in the base list balanced', () => {
+        const [declaration] = findTypeDeclarations(
+            'class GetUsersHandler : IRequestHandler<GetUsersRequest, Dictionary<string, List<(int Id, string Name)>>>, IDisposable { }'
+        );
+
+        assert.deepStrictEqual(declaration.baseTypes, [
+            'IRequestHandler<GetUsersRequest, Dictionary<string, List<(int Id, string Name)>>>',
+            'IDisposable'
+        ]);
+    });
+
+    it('reads base lists spanning several lines with comments in between', () => {
+        const [declaration] = findTypeDeclarations([
+            'public sealed class CreateUserHandler',
+            '    : IRequestHandler<',
+            '        CreateUserRequest, // the request',
+            '        Guid>',
+            '{',
+            '}'
+        ].join('\n'));
+
+        assert.strictEqual(declaration.baseList, 'IRequestHandler<CreateUserRequest, Guid>');
+    });
+
+    it('recognizes interfaces, record structs, record classes and partial types', () => {
+        const declarations = findTypeDeclarations([
+            'public interface ICommand : IRequest { }',
+            'public readonly record struct Ping(int Id) : IRequest;',
+            'public record class Pong : IRequest;',
+            'public partial class Handler { }'
+        ].join('\n'));
+
+        assert.deepStrictEqual(
+            declarations.map(declaration => [declaration.kind, declaration.typeName, declaration.isPartial]),
+            [
+                ['interface', 'ICommand', false],
+                ['record struct', 'Ping', false],
+                ['record', 'Pong', false],
+                ['class', 'Handler', true]
+            ]
+        );
+    });
+
+    it('reads generic type parameters and stops the base list at constraints', () => {
+        const [declaration] = findTypeDeclarations(
+            'class LoggingHandler<TRequest, TResponse> : IRequestHandler<TRequest, TResponse> where TRequest : IRequest<TResponse>, class { }'
+        );
+
+        assert.deepStrictEqual(declaration.typeParameters, ['TRequest', 'TResponse']);
+        assert.deepStrictEqual(declaration.baseTypes, ['IRequestHandler<TRequest, TResponse>']);
+    });
+
+    it('reads the constraints of each type parameter', () => {
+        const [declaration] = findTypeDeclarations(
+            'class CachedQueryHandler<TQuery, TResult> : IRequestHandler<TQuery, TResult> where TQuery : ICachedQuery<TResult>, new() where TResult : class { }'
+        );
+
+        assert.deepStrictEqual(declaration.constraints, {
+            TQuery: ['ICachedQuery<TResult>', 'new()'],
+            TResult: ['class']
+        });
+    });
+
+    it('ignores "class" and "struct" used as generic constraints', () => {
+        const declarations = findTypeDeclarations('class Box<T> where T : class { void M<U>() where U : struct { } }');
+
+        assert.deepStrictEqual(declarations.map(declaration => declaration.typeName), ['Box']);
+    });
+
+    it('ignores declarations inside comments and strings', () => {
+        const declarations = findTypeDeclarations([
+            '// class InComment : IRequest;',
+            'var text = "class InString : IRequest;";',
+            'var raw = """',
+            '    class InRawString : IRequest;',
+            '    """;',
+            'class Real : IRequest;'
+        ].join('\n'));
+
+        assert.deepStrictEqual(declarations.map(declaration => declaration.typeName), ['Real']);
+    });
+
+    it('finds nested types and the types containing them', () => {
+        const declarations = findTypeDeclarations([
+            'public static class CreateUser',
+            '{',
+            '    public record Command : IRequest;',
+            '    public static class Nested { public class Handler { } }',
+            '}',
+            'public abstract class CrudHandler { }'
+        ].join('\n'));
+
+        assert.deepStrictEqual(
+            declarations.map(declaration => [declaration.typeName, declaration.containingTypeName, declaration.isAbstract]),
+            [
+                ['CreateUser', null, false],
+                ['Command', 'CreateUser', false],
+                ['Nested', 'CreateUser', false],
+                ['Handler', 'CreateUser.Nested', false],
+                ['CrudHandler', null, true]
+            ]
+        );
+    });
+
+    it('tracks file-scoped and nested block-scoped namespaces', () => {
+        const fileScoped = findTypeDeclarations('namespace MyApp.Users;\n\nclass A { }');
+        const blockScoped = findTypeDeclarations([
+            'namespace MyApp',
+            '{',
+            '    namespace Users { class A { } }',
+            '    class B { }',
+            '}',
+            'class C { }'
+        ].join('\n'));
+
+        assert.strictEqual(fileScoped[0].namespaceName, 'MyApp.Users');
+        assert.deepStrictEqual(
+            blockScoped.map(declaration => declaration.namespaceName),
+            ['MyApp.Users', 'MyApp', null]
+        );
+    });
+
+    it('finds the end of the declaration, ignoring braces in strings', () => {
+        const text = 'class A { string s = "}"; }\nclass B;';
+        const [first, second] = findTypeDeclarations(text);
+
+        assert.strictEqual(text.slice(0, first.declarationEnd), 'class A { string s = "}"; }');
+        assert.strictEqual(second.declarationEnd, text.length);
+    });
+
+    it('reports the offsets of the keyword, name and header end', () => {
+        const text = 'public record Ping(int Id) : IRequest;';
+        const [declaration] = findTypeDeclarations(text);
+
+        assert.strictEqual(text.slice(declaration.startIndex, declaration.endIndex), 'record Ping(int Id) : IRequest');
+        assert.strictEqual(text.slice(declaration.nameStart, declaration.nameEnd), 'Ping');
+    });
+});
+
+describe('findUsingDirectives', () => {
+    it('reads namespace, static, alias and global using directives', () => {
+        const directives = findUsingDirectives([
+            'global using MyApp.Shared;',
+            'using MyApp.Users;',
+            'using static MyApp.Orders.OrderRequests;',
+            'using Requests = global::MyApp.Requests;',
+            'using Map = System.Collections.Generic.Dictionary<string, int>;'
+        ].join('\n'));
+
+        assert.deepStrictEqual(
+            directives.map(directive => [directive.alias, directive.target, directive.isGlobal, directive.isStatic]),
+            [
+                [null, 'MyApp.Shared', true, false],
+                [null, 'MyApp.Users', false, false],
+                [null, 'MyApp.Orders.OrderRequests', false, true],
+                ['Requests', 'MyApp.Requests', false, false],
+                ['Map', 'System.Collections.Generic.Dictionary<string, int>', false, false]
+            ]
+        );
+    });
+
+    it('ignores using statements and declarations', () => {
+        const directives = findUsingDirectives([
+            'using MyApp.Users;',
+            'class A',
+            '{',
+            '    void M()',
+            '    {',
+            '        using (var scope = Create()) { }',
+            '        using var stream = Open();',
+            '        using var other = stream;',
+            '    }',
+            '}'
+        ].join('\n'));
+
+        assert.deepStrictEqual(directives.map(directive => directive.target), ['MyApp.Users']);
+    });
+
+    it('records the namespace a directive is declared in', () => {
+        const directives = findUsingDirectives('using A;\nnamespace MyApp { using B; }');
+
+        assert.deepStrictEqual(directives.map(directive => directive.namespaceName), [null, 'MyApp']);
+    });
+
+    it('records where each directive starts and ends', () => {
+        const text = 'global using A;\nusing B.C;';
+
+        assert.deepStrictEqual(
+            findUsingDirectives(text).map(directive => text.slice(directive.startIndex, directive.endIndex)),
+            ['global using A;', 'using B.C;']
+        );
+    });
+});
+
+describe('findNamespaceDeclarations', () => {
+    it('records the full name and the name as written', () => {
+        const text = 'namespace MyApp { namespace Users.Admin { } }';
+
+        assert.deepStrictEqual(
+            findNamespaceDeclarations(text).map(namespace => [namespace.name, text.slice(namespace.nameStart, namespace.nameEnd)]),
+            [['MyApp', 'MyApp'], ['MyApp.Users.Admin', 'Users.Admin']]
+        );
+    });
+});
+
+describe('findNamespaceAt', () => {
+    it('finds the innermost block-scoped namespace enclosing an offset', () => {
+        const text = 'namespace MyApp { namespace Users { class A { } } class B { } }\nclass C { }';
+
+        assert.strictEqual(findNamespaceAt(text, text.indexOf('class A')), 'MyApp.Users');
+        assert.strictEqual(findNamespaceAt(text, text.indexOf('class B')), 'MyApp');
+        assert.strictEqual(findNamespaceAt(text, text.indexOf('class C')), null);
+    });
+
+    it('finds a file-scoped namespace', () => {
+        const text = 'using X;\nnamespace MyApp.Users;\nclass A { }';
+
+        assert.strictEqual(findNamespaceAt(text, text.indexOf('class A')), 'MyApp.Users');
+        assert.strictEqual(findNamespaceAt(text, 0), null);
+    });
+});
+
+describe('splitTopLevel', () => {
+    it('splits on commas outside brackets only', () => {
+        assert.deepStrictEqual(
+            splitTopLevel('Dictionary<string, int> Map, (int A, int B) Pair, int[,] Grid'),
+            ['Dictionary<string, int> Map', ' (int A, int B) Pair', ' int[,] Grid']
+        );
+    });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import {
+    DispatchGraph,
+    GraphEdge,
+    filterDispatchChains,
+    findDispatchCycles,
+    findFanOutHotspots,
+    layoutDispatchGraph
+} from '../services/dispatchGraph';
+
+/**
+ * Creates a graph of requests named "<Name>" handled by "<Name>Handler", with the given dispatches between them
+ */
+function createGraph(requestNames: string[], dispatches: [string, string][], dependencies: Record<string, string[]> = {}): DispatchGraph {
+    const edges: GraphEdge[] = [
+        ...requestNames.map(name => ({ from: name, to: `${name}Handler`, kind: 'handles' as const })),
+        ...dispatches.map(([from, to]) => ({ from: `${from}Handler`, to, kind: 'dispatches' as const }))
+    ];
+    return {
+        nodes: requestNames.flatMap(name => [
+            { id: name, kind: 'request' as const, label: name, dependencies: [] },
+            { id: `${name}Handler`, kind: 'handler' as const, label: `${name}Handler`, dependencies: dependencies[name] ?? [] }
+        ]),
+        edges
+    };
+}
+
+describe('findDispatchCycles', () => {
+    it('finds handlers that end up dispatching their own request', () => {
+        const graph = createGraph(['PlaceOrder', 'ReserveStock', 'Notify'], [
+            ['PlaceOrder', 'ReserveStock'],
+            ['ReserveStock', 'PlaceOrder'],
+            ['ReserveStock', 'Notify']
+        ]);
+
+        assert.deepStrictEqual(findDispatchCycles(graph), [
+            ['PlaceOrder', 'PlaceOrderHandler', 'ReserveStock', 'ReserveStockHandler']
+        ]);
+    });
+
+    it('finds no cycles in a dispatch chain', () => {
+        const graph = createGraph(['A', 'B', 'C'], [['A', 'B'], ['B', 'C']]);
+
+        assert.deepStrictEqual(findDispatchCycles(graph), []);
+    });
+});
+
+describe('findFanOutHotspots', () => {
+    it('counts the distinct requests each handler dispatches', () => {
+        const graph = createGraph(['Checkout', 'Charge', 'Ship', 'Email'], [
+            ['Checkout', 'Charge'],
+            ['Checkout', 'Ship'],
+            ['Checkout', 'Email'],
+            ['Ship', 'Email']
+        ]);
+
+        assert.deepStrictEqual([...findFanOutHotspots(graph, 3)], [['CheckoutHandler', 3]]);
+    });
+});
+
+describe('filterDispatchChains', () => {
+    it('keeps only the requests and handlers linked to a dispatch', () => {
+        const graph = filterDispatchChains(createGraph(['A', 'B', 'Standalone'], [['A', 'B']]));
+
+        assert.deepStrictEqual(graph.nodes.map(node => node.id), ['A', 'AHandler', 'B', 'BHandler']);
+        assert.strictEqual(graph.edges.length, 3);
+    });
+});
+
+describe('layoutDispatchGraph', () => {
+    it('places each node one column after the nodes linking to it', () => {
+        const layout = layoutDispatchGraph(createGraph(['A', 'B'], [['A', 'B']]));
+        const columns = new Map(layout.nodes.map(node => [node.node.id, node.x]));
+
+        assert.ok(columns.get('A')! < columns.get('AHandler')!);
+        assert.ok(columns.get('AHandler')! < columns.get('B')!);
+        assert.ok(columns.get('B')! < columns.get('BHandler')!);
+    });
+
+    it('marks the link closing a cycle as a back edge', () => {
+        const layout = layoutDispatchGraph(createGraph(['A', 'B'], [['A', 'B'], ['B', 'A']]));
+
+        assert.deepStrictEqual(
+            layout.edges.filter(edge => edge.isBackEdge).map(({ edge }) => [edge.from, edge.to]),
+            [['BHandler', 'A']]
+        );
+    });
+
+    it('makes handlers taller for each dependency', () => {
+        const layout = layoutDispatchGraph(createGraph(['A'], [], { A: ['IOrderRepository', 'ILogger<AHandler>'] }));
+        const [request, handler] = layout.nodes;
+
+        assert.strictEqual(handler.height - request.height, 32);
+        assert.ok(layout.width >= handler.x + handler.width);
+    });
+});
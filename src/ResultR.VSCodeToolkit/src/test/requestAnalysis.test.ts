@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { analyzeSourceFiles } from '../services/requestAnalysis';
+
+/**
+ * Analyzes the given source texts and lists each problem's code and the names of the types it is reported at
+ */
+function findProblems(...texts: string[]): [string, string[]][] {
+    const analysis = analyzeSourceFiles(texts.map((text, index) => ({ path: `File${index}.cs`, text })));
+    return analysis.problems.map(problem => [problem.code, problem.locations.map(location => location.typeName)]);
+}
+
+describe('analyzeSourceFiles', () => {
+    it('reports requests without a handler', () => {
+        assert.deepStrictEqual(
+            findProblems('namespace App; record Ping : IRequest; record Pong : IRequest; class PongHandler : IRequestHandler<Pong> { }'),
+            [['ResultR1001', ['Ping']]]
+        );
+    });
+
+    it('reports a request with several handlers at the request and each handler', () => {
+        assert.deepStrictEqual(
+            findProblems(
+                'namespace App; record Ping : IRequest;',
+                'namespace App; class FirstHandler : IRequestHandler<Ping> { }',
+                'namespace App; class SecondHandler : IRequestHandler<Ping> { }'
+            ),
+            [['ResultR1002', ['Ping', 'FirstHandler', 'SecondHandler']]]
+        );
+    });
+
+    it('reports handlers whose response type differs from the request', () => {
+        const analysis = analyzeSourceFiles([{
+            path: 'Users.cs',
+            text: 'namespace App;\nrecord GetUser : IRequest<UserDto>;\nclass GetUserHandler : IRequestHandler<GetUser, string> { }'
+        }]);
+
+        assert.deepStrictEqual(
+            analysis.problems.map(problem => [problem.code, problem.severity, problem.message]),
+            [['ResultR1003', 'error', "'GetUserHandler' returns 'string' but 'GetUser' is IRequest<UserDto>."]]
+        );
+    });
+
+    it('treats framework type names and their keywords as the same response type', () => {
+        assert.deepStrictEqual(
+            findProblems('record Ping : IRequest<System.Int32>; class PingHandler : IRequestHandler<Ping, int> { }'),
+            []
+        );
+    });
+
+    it('matches requests to handlers by namespace when names are ambiguous', () => {
+        assert.deepStrictEqual(
+            findProblems(
+                'namespace App.Users { record Create : IRequest; }\nnamespace App.Orders { record Create : IRequest; }',
+                'using App.Users;\nnamespace App.Handlers; class CreateUserHandler : IRequestHandler<Create> { }'
+            ),
+            [['ResultR1001', ['Create']]]
+        );
+    });
+
+    it('resolves names imported through global usings in other files', () => {
+        assert.deepStrictEqual(
+            findProblems(
+                'global using App.Users;',
+                'namespace App.Users { record Create : IRequest; }\nnamespace App.Orders { record Create : IRequest; class CreateHandler : IRequestHandler<Create> { } }',
+                'namespace App.Handlers; class CreateUserHandler : IRequestHandler<Create> { }'
+            ),
+            []
+        );
+    });
+
+    it('prefers a specific handler over an open generic handler matching the same request', () => {
+        assert.deepStrictEqual(
+            findProblems([
+                'record Ping : IRequest; record Pong : IRequest;',
+                'class PingHandler : IRequestHandler<Ping> { }',
+                'class FallbackHandler<TRequest> : IRequestHandler<TRequest> where TRequest : IRequest { }'
+            ].join('\n')),
+            []
+        );
+    });
+
+    it('reports the 1-based line and column of the type name', () => {
+        const analysis = analyzeSourceFiles([{ path: 'src/Ping.cs', text: 'namespace App;\n\npublic record Ping : IRequest;' }]);
+        const { declaration } = analysis.requests[0];
+
+        assert.deepStrictEqual(
+            [declaration.filePath, declaration.line, declaration.column, declaration.endLine, declaration.endColumn],
+            ['src/Ping.cs', 3, 15, 3, 19]
+        );
+    });
+});
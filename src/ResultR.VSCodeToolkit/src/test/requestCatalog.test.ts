@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { RequestCatalogEntry, formatRequestCatalog } from '../services/requestCatalog';
+
+// A request with a handler and a request without one, in different namespaces
+const entries: RequestCatalogEntry[] = [
+    {
+        typeName: 'GetOrderRequest',
+        namespaceName: 'MyApp.Orders',
+        projectName: 'MyApp',
+        responseType: 'OrderDto',
+        filePath: 'src/MyApp/Orders/GetOrder.cs',
+        line: 5,
+        handlers: []
+    },
+    {
+        typeName: 'CreateUserRequest',
+        namespaceName: 'MyApp.Users',
+        projectName: 'MyApp',
+        responseType: null,
+        filePath: 'src/MyApp/Users/CreateUser.cs',
+        line: 3,
+        handlers: [{
+            typeName: 'CreateUserHandler',
+            namespaceName: 'MyApp.Users',
+            hooks: ['ValidateAsync', 'AfterHandleAsync'],
+            filePath: 'src/MyApp/Users/CreateUser.cs',
+            line: 5
+        }]
+    }
+];
+
+describe('formatRequestCatalog', () => {
+    it('writes a Markdown table per namespace', () => {
+        const markdown = formatRequestCatalog(entries, 'markdown');
+
+        assert.ok(markdown.startsWith('# Request Catalog\n\n2 requests in 2 namespaces.'));
+        assert.ok(markdown.indexOf('## MyApp.Orders') < markdown.indexOf('## MyApp.Users'));
+        assert.ok(markdown.includes('| `GetOrderRequest` | `IRequest<OrderDto>` | MyApp | ⚠ none |  | `src/MyApp/Orders/GetOrder.cs:5` |'));
+        assert.ok(markdown.includes(
+            '| `CreateUserRequest` | `IRequest` (void) | MyApp | `CreateUserHandler` | ValidateAsync, AfterHandleAsync | '
+            + '`src/MyApp/Users/CreateUser.cs:3`<br>`src/MyApp/Users/CreateUser.cs:5` |'
+        ));
+    });
+
+    it('writes JSON grouped by namespace', () => {
+        const catalog = JSON.parse(formatRequestCatalog(entries, 'json'));
+
+        assert.deepStrictEqual(catalog.namespaces.map((group: { namespace: string }) => group.namespace), ['MyApp.Orders', 'MyApp.Users']);
+        assert.deepStrictEqual(catalog.namespaces[1].requests[0].handlers[0], {
+            name: 'CreateUserHandler',
+            namespace: 'MyApp.Users',
+            hooks: ['ValidateAsync', 'AfterHandleAsync'],
+            file: 'src/MyApp/Users/CreateUser.cs',
+            line: 5
+        });
+    });
+
+    it('writes a Mermaid flowchart with a subgraph per namespace', () => {
+        assert.strictEqual(formatRequestCatalog(entries, 'mermaid'), [
+            'flowchart LR',
+            '    subgraph ns0["MyApp.Orders"]',
+            '        r0_0(["GetOrderRequest<br/>IRequest#lt;OrderDto#gt;"])',
+            '    end',
+            '    subgraph ns1["MyApp.Users"]',
+            '        r1_0(["CreateUserRequest<br/>IRequest"])',
+            '        r1_0_h0["CreateUserHandler<br/>ValidateAsync, AfterHandleAsync"]',
+            '    end',
+            '    r1_0 --> r1_0_h0',
+            ''
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,13 @@
+/**
+ * Runs the unit tests with the Node.js test runner.
+ * Only modules that don't depend on the VS Code API are unit tested, so no VS Code instance is needed.
+ */
+import './csharpTokenizer.test';
+import './typeResolver.test';
+import './typeHierarchy.test';
+import './requestCatalog.test';
+import './requestAnalysis.test';
+import './analysisReport.test';
+import './dispatchGraph.test';
+import './textPositions.test';
+import './validationRules.test';
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { createPositionFinder } from '../services/textPositions';
+
+describe('createPositionFinder', () => {
+    it('converts offsets to 0-based lines and characters', () => {
+        const positionAt = createPositionFinder('namespace App;\r\n\npublic record Ping : IRequest;');
+
+        assert.deepStrictEqual(positionAt(0), { line: 0, character: 0 });
+        assert.deepStrictEqual(positionAt(10), { line: 0, character: 10 });
+        assert.deepStrictEqual(positionAt(16), { line: 1, character: 0 });
+        assert.deepStrictEqual(positionAt(31), { line: 2, character: 14 });
+    });
+
+    it('places offsets past the end on the last line', () => {
+        const positionAt = createPositionFinder('a\nbc');
+
+        assert.deepStrictEqual(positionAt(4), { line: 1, character: 2 });
+    });
+});
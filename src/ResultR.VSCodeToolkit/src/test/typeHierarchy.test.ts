@@ -0,0 +1,188 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { TypeSymbol } from '../types';
+import { findTypeDeclarations, findUsingDirectives } from '../services/csharpTokenizer';
+import { createTypeHierarchy, describeHandler, describeRequest, satisfiesConstraints } from '../services/typeHierarchy';
+import { getFullName, getReferenceContext } from '../services/typeResolver';
+
+/**
+ * Reads the type symbols declared in each of the given source files
+ */
+function readSymbols(...files: string[]): TypeSymbol[] {
+    return files.flatMap(text => findTypeDeclarations(text).map(declaration => ({
+        kind: declaration.kind,
+        typeName: declaration.typeName,
+        fullName: getFullName(declaration.namespaceName, declaration.typeName, declaration.containingTypeName),
+        typeParameters: declaration.typeParameters,
+        constraints: declaration.constraints,
+        baseTypes: declaration.baseTypes,
+        isAbstract: declaration.isAbstract,
+        isPartial: declaration.isPartial,
+        referenceContext: getReferenceContext(text, declaration.startIndex)
+    })));
+}
+
+/**
+ * Describes the handled requests of the type with the given full name
+ */
+function describeHandlerNamed(fullName: string, ...files: string[]) {
+    const hierarchy = createTypeHierarchy(readSymbols(...files));
+    const parts = hierarchy.types.find(parts => parts[0].fullName === fullName) ?? [];
+    return describeHandler(parts, hierarchy).map(handled => [handled.request.reference, handled.responseType, handled.constraints]);
+}
+
+describe('describeHandler', () => {
+    it('finds IRequestHandler declared directly on the class', () => {
+        assert.deepStrictEqual(
+            describeHandlerNamed('App.PingHandler', 'namespace App; class PingHandler : IRequestHandler<Ping, string> { }'),
+            [['Ping', 'string', null]]
+        );
+    });
+
+    it('walks generic base classes and substitutes their type arguments', () => {
+        const baseFile = [
+            'namespace App.Shared;',
+            'public abstract class CrudHandler<TRequest> : EntityHandler<TRequest, int> { }',
+            'public abstract class EntityHandler<TEntityRequest, TKey> : IRequestHandler<TEntityRequest, Result<TKey>> { }'
+        ].join('\n');
+        const handlerFile = 'using App.Shared;\nnamespace App.Users;\npublic class CreateUserHandler : CrudHandler<CreateUser> { }';
+
+        assert.deepStrictEqual(
+            describeHandlerNamed('App.Users.CreateUserHandler', baseFile, handlerFile),
+            [['CreateUser', 'Result<int>', null]]
+        );
+    });
+
+    it('ignores IRequestHandler interfaces of other libraries', () => {
+        const text = [
+            'using DR = DispatchR.Abstractions.Send;',
+            'namespace App;',
+            'class MediatRHandler : MediatR.IRequestHandler<Ping, int> { }',
+            'class DispatchRHandler : DR.IRequestHandler<Ping, ValueTask<int>> { }'
+        ].join('\n');
+
+        assert.deepStrictEqual(describeHandlerNamed('App.MediatRHandler', text), []);
+        assert.deepStrictEqual(describeHandlerNamed('App.DispatchRHandler', text), []);
+    });
+
+    it('ignores unqualified handlers when another library is imported, including through global usings', () => {
+        const mediatR = 'using MediatR;\nnamespace App;\nclass PingHandler : IRequestHandler<Ping, string> { }';
+        const globalMediatR = 'namespace App;\nclass PingHandler : IRequestHandler<Ping, string> { }';
+        const hierarchy = createTypeHierarchy(readSymbols(globalMediatR), findUsingDirectives('global using MediatR;'));
+        const withSystem = 'using System;\nusing System.Threading;\nnamespace App;\nclass PingHandler : IRequestHandler<Ping, string> { }';
+
+        assert.deepStrictEqual(describeHandlerNamed('App.PingHandler', mediatR), []);
+        assert.deepStrictEqual(describeHandler(hierarchy.types[0], hierarchy), []);
+        assert.deepStrictEqual(describeHandlerNamed('App.PingHandler', withSystem), [['Ping', 'string', null]]);
+    });
+
+    it('does not treat abstract base handlers as handlers', () => {
+        assert.deepStrictEqual(
+            describeHandlerNamed('App.BaseHandler', 'namespace App; abstract class BaseHandler : IRequestHandler<Ping> { }'),
+            []
+        );
+    });
+
+    it('reports open generic handlers with the constraints of the handled type parameter', () => {
+        assert.deepStrictEqual(
+            describeHandlerNamed(
+                'App.CachedQueryHandler',
+                'namespace App; class CachedQueryHandler<TQuery> : IRequestHandler<TQuery, string> where TQuery : ICachedQuery { }'
+            ),
+            [['TQuery', 'string', ['ICachedQuery']]]
+        );
+    });
+
+    it('finds handlers nested in static classes', () => {
+        assert.deepStrictEqual(
+            describeHandlerNamed(
+                'App.CreateUser.Handler',
+                'namespace App; public static class CreateUser { public record Command : IRequest; public class Handler : IRequestHandler<Command> { } }'
+            ),
+            [['Command', null, null]]
+        );
+    });
+
+    it('combines the base types of every part of a partial class', () => {
+        assert.deepStrictEqual(
+            describeHandlerNamed(
+                'App.PingHandler',
+                'namespace App; public partial class PingHandler { }',
+                'namespace App; partial class PingHandler : IRequestHandler<Ping> { }'
+            ),
+            [['Ping', null, null]]
+        );
+    });
+});
+
+describe('describeRequest', () => {
+    it('finds IRequest<T> through base interfaces and records', () => {
+        const hierarchy = createTypeHierarchy(readSymbols([
+            'namespace App;',
+            'public interface ICachedQuery<T> : IRequest<T> { }',
+            'public abstract record Query<T> : ICachedQuery<T>;',
+            'public record GetUser(int Id) : Query<UserDto>;'
+        ].join('\n')));
+        const getUser = hierarchy.types.find(parts => parts[0].typeName === 'GetUser') ?? [];
+        const description = describeRequest(getUser, hierarchy);
+
+        assert.strictEqual(description?.responseType, 'UserDto');
+        assert.deepStrictEqual([...description.baseTypeNames].sort(), ['App.ICachedQuery', 'App.Query']);
+    });
+
+    it('ignores interfaces and abstract types', () => {
+        const hierarchy = createTypeHierarchy(readSymbols(
+            'interface ICommand : IRequest { }\nabstract record Command : IRequest;'
+        ));
+
+        assert.deepStrictEqual(hierarchy.types.map(parts => describeRequest(parts, hierarchy)), [null, null]);
+    });
+
+    it('ignores IRequest interfaces of other libraries', () => {
+        const hierarchy = createTypeHierarchy(readSymbols([
+            'using ResultR;',
+            'using DR = DispatchR.Abstractions.Send;',
+            'namespace App;',
+            'public record MediatRPing : MediatR.IRequest<int>;',
+            'public record DispatchRPing : DR.IRequest<DispatchRPing, ValueTask<int>>;',
+            'public record Ping : IRequest<int>;',
+            'public record QualifiedPing : ResultR.IRequest;'
+        ].join('\n')));
+
+        assert.deepStrictEqual(
+            hierarchy.types.map(parts => [parts[0].typeName, describeRequest(parts, hierarchy)?.responseType]),
+            [['MediatRPing', undefined], ['DispatchRPing', undefined], ['Ping', 'int'], ['QualifiedPing', null]]
+        );
+    });
+
+    it('ignores unqualified IRequest when another library is imported', () => {
+        const hierarchy = createTypeHierarchy(readSymbols(
+            'using MediatR;\nnamespace App;\npublic record Ping : IRequest<string>;',
+            'using ResultR;\nusing MediatR;\nnamespace App;\npublic record Pong : IRequest<string>;'
+        ));
+
+        assert.deepStrictEqual(
+            hierarchy.types.map(parts => [parts[0].typeName, describeRequest(parts, hierarchy)?.responseType]),
+            [['Ping', undefined], ['Pong', 'string']]
+        );
+    });
+});
+
+describe('satisfiesConstraints', () => {
+    it('matches requests implementing the constraint interface', () => {
+        const text = [
+            'namespace App;',
+            'public interface ICachedQuery : IRequest<string> { }',
+            'public record GetName : ICachedQuery;',
+            'public record Rename : IRequest;'
+        ].join('\n');
+        const hierarchy = createTypeHierarchy(readSymbols(text));
+        const [getName, rename] = hierarchy.types.slice(1).map(parts => describeRequest(parts, hierarchy));
+        const context = getReferenceContext(text, text.length);
+
+        assert.ok(getName && rename);
+        assert.strictEqual(satisfiesConstraints(getName, ['ICachedQuery', 'new()'], context, hierarchy), true);
+        assert.strictEqual(satisfiesConstraints(rename, ['ICachedQuery'], context, hierarchy), false);
+        assert.strictEqual(satisfiesConstraints(rename, ['IRequest', 'class'], context, hierarchy), true);
+    });
+});
@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { findUsingDirectives } from '../services/csharpTokenizer';
+import {
+    createReferenceContext,
+    findTypeReferences,
+    getReferenceContext,
+    getSimpleTypeName,
+    isTypeReference,
+    resolveTypeReference
+} from '../services/typeResolver';
+
+// Request types that share the simple name "GetOrderRequest"
+const candidates = [
+    { fullName: 'MyApp.Orders.GetOrderRequest' },
+    { fullName: 'MyApp.Admin.Orders.GetOrderRequest' },
+    { fullName: 'GetOrderRequest' }
+];
+
+/**
+ * Resolves a type name written at the "here" marker comment in the given source text
+ */
+function resolveAt(text: string, reference: string): string[] {
+    const context = getReferenceContext(text, text.indexOf('/*here*/'));
+    return resolveTypeReference(reference, context, candidates).map(candidate => candidate.fullName);
+}
+
+describe('resolveTypeReference', () => {
+    it('prefers the enclosing namespace over outer namespaces and usings', () => {
+        const text = 'using MyApp.Orders;\nnamespace MyApp.Admin.Orders;\nclass Handler { /*here*/ }';
+
+        assert.deepStrictEqual(resolveAt(text, 'GetOrderRequest'), ['MyApp.Admin.Orders.GetOrderRequest']);
+    });
+
+    it('falls back to the global namespace before using directives', () => {
+        const text = 'using MyApp.Orders;\nnamespace MyApp.Billing;\nclass Handler { /*here*/ }';
+
+        assert.deepStrictEqual(resolveAt(text, 'GetOrderRequest'), ['GetOrderRequest']);
+    });
+
+    it('resolves through using directives and reports ambiguous imports', () => {
+        const imported = resolveTypeReference(
+            'GetOrderRequest',
+            getReferenceContext('using MyApp.Orders;\nclass A { }', 0),
+            candidates.slice(0, 2)
+        );
+        const ambiguous = resolveTypeReference(
+            'GetOrderRequest',
+            getReferenceContext('using MyApp.Orders;\nusing MyApp.Admin.Orders;\nclass A { }', 0),
+            candidates.slice(0, 2)
+        );
+
+        assert.deepStrictEqual(imported.map(candidate => candidate.fullName), ['MyApp.Orders.GetOrderRequest']);
+        assert.strictEqual(ambiguous.length, 2);
+    });
+
+    it('resolves qualified names relative to the enclosing namespaces', () => {
+        const text = 'namespace MyApp.Billing\n{\n    class Handler { /*here*/ }\n}';
+
+        assert.deepStrictEqual(resolveAt(text, 'Admin.Orders.GetOrderRequest'), ['MyApp.Admin.Orders.GetOrderRequest']);
+        assert.deepStrictEqual(resolveAt(text, 'MyApp.Orders.GetOrderRequest'), ['MyApp.Orders.GetOrderRequest']);
+    });
+
+    it('resolves aliases and global:: names', () => {
+        const text = 'using AdminOrders = MyApp.Admin.Orders;\nnamespace MyApp.Orders;\nclass Handler { /*here*/ }';
+
+        assert.deepStrictEqual(resolveAt(text, 'AdminOrders.GetOrderRequest'), ['MyApp.Admin.Orders.GetOrderRequest']);
+        assert.deepStrictEqual(resolveAt(text, 'global::GetOrderRequest'), ['GetOrderRequest']);
+    });
+
+    it('looks up members of the containing types first', () => {
+        const text = 'namespace MyApp.Orders;\npublic static class GetOrder { public class Handler { /*here*/ } }';
+        const nested = [...candidates, { fullName: 'MyApp.Orders.GetOrder.GetOrderRequest' }];
+
+        assert.deepStrictEqual(
+            resolveTypeReference('GetOrderRequest', getReferenceContext(text, text.indexOf('/*here*/')), nested)
+                .map(candidate => candidate.fullName),
+            ['MyApp.Orders.GetOrder.GetOrderRequest']
+        );
+    });
+
+    it('only applies using directives declared in an enclosing namespace', () => {
+        const text = [
+            'namespace MyApp.Billing { using MyApp.Admin.Orders; }',
+            'namespace MyApp.Shipping { class Handler { /*here*/ } }'
+        ].join('\n');
+
+        assert.deepStrictEqual(
+            resolveTypeReference('GetOrderRequest', getReferenceContext(text, text.indexOf('/*here*/')), candidates.slice(0, 2)),
+            []
+        );
+    });
+});
+
+describe('getSimpleTypeName', () => {
+    it('removes the namespace qualifier and global::', () => {
+        assert.strictEqual(getSimpleTypeName('global::MyApp.Orders.GetOrderRequest'), 'GetOrderRequest');
+        assert.strictEqual(getSimpleTypeName('GetOrderRequest'), 'GetOrderRequest');
+    });
+});
+
+describe('isTypeReference', () => {
+    it('accepts plain and qualified names only', () => {
+        assert.strictEqual(isTypeReference('Orders.GetOrderRequest'), true);
+        assert.strictEqual(isTypeReference('List<GetOrderRequest>'), false);
+        assert.strictEqual(isTypeReference('GetOrderRequest[]'), false);
+    });
+});
+
+describe('findTypeReferences', () => {
+    const knownTypes = candidates.slice(0, 2).map(candidate => candidate.fullName);
+
+    /**
+     * Finds the references to MyApp.Orders.GetOrderRequest and returns the line of each one
+     */
+    function findOrderReferences(text: string, globalUsings: string[] = []): string[] {
+        const globalContext = createReferenceContext(null, findUsingDirectives(globalUsings.map(target => `global using ${target};`).join('\n')));
+        return findTypeReferences(text, ['MyApp.Orders.GetOrderRequest'], knownTypes, globalContext)
+            .map(reference => text.split('\n')[text.slice(0, reference.start).split('\n').length - 1]);
+    }
+
+    it('finds declarations, type usages, nameof and using static directives', () => {
+        const text = [
+            'using static MyApp.Orders.GetOrderRequest;',
+            'namespace MyApp.Orders;',
+            'public record GetOrderRequest(int Id) : IRequest<OrderDto>;',
+            'public class Validator { string Name => nameof(GetOrderRequest); }',
+            'public class Tests { void Test() { var request = new Orders.GetOrderRequest(1); } }'
+        ].join('\n');
+
+        assert.deepStrictEqual(findOrderReferences(text), [
+            'using static MyApp.Orders.GetOrderRequest;',
+            'public record GetOrderRequest(int Id) : IRequest<OrderDto>;',
+            'public class Validator { string Name => nameof(GetOrderRequest); }',
+            'public class Tests { void Test() { var request = new Orders.GetOrderRequest(1); } }'
+        ]);
+    });
+
+    it('skips names that resolve to another type, members, comments and strings', () => {
+        const text = [
+            'using MyApp.Orders;',
+            'namespace MyApp.Admin.Orders;',
+            '// GetOrderRequest is handled below',
+            'class Handler { string Name = "GetOrderRequest"; object Send(GetOrderRequest request) => request.GetOrderRequest; }'
+        ].join('\n');
+
+        assert.deepStrictEqual(findOrderReferences(text), []);
+    });
+
+    it('resolves names imported through global using directives', () => {
+        const text = 'namespace MyApp.Tests;\nclass HandlerTests { GetOrderRequest Request = null!; }';
+
+        assert.deepStrictEqual(findOrderReferences(text), []);
+        assert.deepStrictEqual(findOrderReferences(text, ['MyApp.Orders']), ['class HandlerTests { GetOrderRequest Request = null!; }']);
+    });
+});
@@ -0,0 +1,19 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { getValidationRule } from '../services/validationRules';
+
+describe('getValidationRule', () => {
+    it('compares numerics with a zero of the property type', () => {
+        assert.strictEqual(getValidationRule('int'), 'GreaterThan(0)');
+        assert.strictEqual(getValidationRule('byte'), 'GreaterThan((byte)0)');
+        assert.strictEqual(getValidationRule('System.UInt64'), 'GreaterThan(0UL)');
+        assert.strictEqual(getValidationRule('decimal'), 'GreaterThan(0m)');
+    });
+
+    it('picks rules for strings, reference types, nullables and other value types', () => {
+        assert.strictEqual(getValidationRule('string'), 'NotEmpty()');
+        assert.strictEqual(getValidationRule('UserDto'), 'NotNull()');
+        assert.strictEqual(getValidationRule('int?'), null);
+        assert.strictEqual(getValidationRule('Guid'), null);
+    });
+});
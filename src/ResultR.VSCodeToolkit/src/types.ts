@@ -6,8 +6,10 @@ import * as vscode from 'vscode';
 export interface CSharpType {
     /** The simple name of the type (e.g., "CreateUserRequest") */
     typeName: string;
-    /** The full namespace-qualified name if available */
+    /** The namespace-qualified name (e.g., "MyApp.Users.CreateUserRequest") if available */
     fullName?: string;
+    /** The namespace the type is declared in, or null for the global namespace, if known */
+    namespaceName?: string | null;
     /** The file URI where this type is defined */
     fileUri: vscode.Uri;
     /** The position of the type declaration */
@@ -16,6 +18,106 @@ export interface CSharpType {
     range: vscode.Range;
 }
 
+/**
+ * Represents a type that implements IRequest or IRequest<T>
+ */
+export interface RequestType extends CSharpType {
+    /** The T in IRequest<T>, or null for a void IRequest */
+    responseType: string | null;
+}
+
+/**
+ * Represents a class that implements IRequestHandler for a request type
+ */
+export interface HandlerType extends CSharpType {
+    /** The simple name of the request type being handled (e.g., "CreateUserRequest") */
+    requestTypeName: string;
+    /** The request type as written in IRequestHandler<...>, which may be qualified (e.g., "Users.CreateUserRequest") */
+    requestTypeReference: string;
+    /** The namespace and using directives used to resolve the request type */
+    referenceContext: TypeReferenceContext;
+    /**
+     * For an open generic handler (e.g., CachedQueryHandler<TQuery>), the constraints of the type parameter
+     * it handles; it handles every request that satisfies them. Null for a handler of a specific request type.
+     */
+    requestConstraints: string[] | null;
+    /** The TResponse in IRequestHandler<TRequest, TResponse>, or null for IRequestHandler<TRequest> */
+    responseType: string | null;
+}
+
+/**
+ * The namespace and using directives in effect where a type name is written, used to find the declaration it refers to
+ */
+export interface TypeReferenceContext {
+    /** The namespace enclosing the reference, or null for the global namespace */
+    namespaceName: string | null;
+    /** The types enclosing the reference, outermost first and joined with "." (e.g., "CreateUser"), or null */
+    containingTypeName: string | null;
+    /** The namespaces imported with "using Namespace;" */
+    usings: string[];
+    /** The types imported with "using static Type;" */
+    staticUsings: string[];
+    /** The targets of "using Alias = Target;", keyed by alias */
+    aliases: Record<string, string>;
+}
+
+/**
+ * The parts of a type declaration needed to walk its base types
+ */
+export interface TypeSymbol {
+    kind: 'class' | 'struct' | 'interface' | 'record' | 'record struct';
+    /** The simple name of the type */
+    typeName: string;
+    /** The name qualified with the namespace and any containing types (e.g., "MyApp.Users.CreateUser.Command") */
+    fullName: string;
+    /** The names of the generic type parameters */
+    typeParameters: string[];
+    /** The constraints of each type parameter from its "where" clause */
+    constraints: Record<string, string[]>;
+    /** The base class and interfaces as written in the declaration */
+    baseTypes: string[];
+    /** Whether the type is abstract, so it is never instantiated as a handler or request */
+    isAbstract: boolean;
+    /** Whether the type is partial, so its base types may be spread over several declarations */
+    isPartial: boolean;
+    /** The namespace and using directives used to resolve the base types */
+    referenceContext: TypeReferenceContext;
+}
+
+/**
+ * A type declared in source text, with the offsets of its declaration
+ */
+export interface TypeSymbolDeclaration extends TypeSymbol {
+    /** The namespace the type is declared in, or null for the global namespace */
+    namespaceName: string | null;
+    /** The offset of the first modifier or keyword of the declaration */
+    startIndex: number;
+    /** The offset just past the declaration header (before the body or ";") */
+    endIndex: number;
+    /** The offset of the type name */
+    nameStart: number;
+    /** The offset just past the type name */
+    nameEnd: number;
+    /** The length of the whole declaration, used to pick the main declaration of a partial type */
+    declarationLength: number;
+}
+
+/**
+ * A type declared in the workspace, with its location
+ */
+export interface DeclaredType extends CSharpType, TypeSymbolDeclaration {
+    fullName: string;
+    namespaceName: string | null;
+    /** The range of the type name; the range of the declaration covers its whole header */
+    nameRange: vscode.Range;
+}
+
+/**
+ * The parts of a text document needed to map text offsets to source locations.
+ * Satisfied by vscode.TextDocument as well as by snapshots of files read from disk.
+ */
+export type SourceText = Pick<vscode.TextDocument, 'uri' | 'positionAt'>;
+
 /**
  * Represents a location in a source file
  */
@@ -28,6 +130,72 @@ export interface SourceLocation {
     range: vscode.Range;
 }
 
+/**
+ * Represents a call that dispatches a request through IDispatcher.Dispatch
+ */
+export interface DispatchSite extends SourceLocation {
+    /** The simple name of the request type being dispatched */
+    requestTypeName: string;
+    /** The request type as written at the call site, which may be qualified (e.g., "Users.CreateUserRequest") */
+    requestTypeReference: string;
+    /** The namespace and using directives used to resolve the request type */
+    referenceContext: TypeReferenceContext;
+}
+
+/**
+ * A property of a generated request record's primary constructor
+ */
+export interface RequestProperty {
+    /** The C# type of the property (e.g., "string") */
+    type: string;
+    /** The name of the property (e.g., "Name") */
+    name: string;
+}
+
+/**
+ * The optional IRequestHandler pipeline hooks a generated handler can implement
+ */
+export type PipelineHook = 'ValidateAsync' | 'BeforeHandleAsync' | 'AfterHandleAsync';
+
+/**
+ * Options describing the request and handler to scaffold
+ */
+export interface ScaffoldOptions {
+    /** The T in IRequest<T>, or null for a request that does not return a value */
+    responseType: string | null;
+    /** The properties of the request record's primary constructor */
+    properties: RequestProperty[];
+    /** The pipeline hooks to generate stubs for in the handler */
+    hooks: PipelineHook[];
+    /** Whether ValidateAsync should validate the properties with ResultR.Validation rules */
+    useValidationRules: boolean;
+}
+
+/**
+ * The operations a feature slice can scaffold a request and handler for
+ */
+export type FeatureOperation = 'Create' | 'Get' | 'List' | 'Update' | 'Delete';
+
+/**
+ * The unit test frameworks handler tests can be generated for
+ */
+export type TestFramework = 'xUnit' | 'NUnit' | 'MSTest';
+
+/**
+ * How a scaffolded request and its handler are laid out on disk
+ */
+export type GenerationLayout = 'singleFile' | 'separateFiles' | 'mirroredFolders';
+
+/**
+ * A user-defined scaffold template (*.cs.template) found in the workspace
+ */
+export interface ScaffoldTemplate {
+    /** The template name shown in the picker (the file name without ".cs.template") */
+    name: string;
+    /** The template file */
+    uri: vscode.Uri;
+}
+
 /**
  * Configuration for the ResultR extension
  */
@@ -37,10 +205,22 @@ export interface ResultRConfig {
     };
     codeGeneration: {
         useFileScopedNamespaces: 'auto' | 'always' | 'never';
+        includeHooks: PipelineHook[];
+        templatesPath: string;
+        layout: GenerationLayout;
     };
     search: {
         excludePatterns: string[];
     };
+    codeLens: {
+        enabled: boolean;
+    };
+    diagnostics: {
+        enabled: boolean;
+    };
+    refactoring: {
+        updateNamespacesOnMove: boolean;
+    };
 }
 
 /**
@@ -53,10 +233,22 @@ export function getConfig(): ResultRConfig {
             keyboardShortcut: config.get<string>('goToHandler.keyboardShortcut', 'ctrl+r ctrl+h')
         },
         codeGeneration: {
-            useFileScopedNamespaces: config.get<'auto' | 'always' | 'never'>('codeGeneration.useFileScopedNamespaces', 'auto')
+            useFileScopedNamespaces: config.get<'auto' | 'always' | 'never'>('codeGeneration.useFileScopedNamespaces', 'auto'),
+            includeHooks: config.get<PipelineHook[]>('codeGeneration.includeHooks', []),
+            templatesPath: config.get<string>('codeGeneration.templatesPath', ''),
+            layout: config.get<GenerationLayout>('codeGeneration.layout', 'singleFile')
         },
         search: {
             excludePatterns: config.get<string[]>('search.excludePatterns', ['**/bin/**', '**/obj/**', '**/node_modules/**'])
+        },
+        codeLens: {
+            enabled: config.get<boolean>('codeLens.enabled', true)
+        },
+        diagnostics: {
+            enabled: config.get<boolean>('diagnostics.enabled', true)
+        },
+        refactoring: {
+            updateNamespacesOnMove: config.get<boolean>('refactoring.updateNamespacesOnMove', true)
         }
     };
 }